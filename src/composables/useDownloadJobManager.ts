@@ -0,0 +1,100 @@
+/**
+ * Vue 3 Composable for the Download Job Manager
+ *
+ * Exposes a reactive job list for queue UIs. Jobs run on the main thread.
+ *
+ * @module useDownloadJobManager
+ */
+
+import { shallowRef, computed, onUnmounted, type Ref } from 'vue';
+import type { TileDownloadConfig } from '@/services/tileDownloader';
+import {
+  DownloadJobManager,
+  type DownloadJobManagerOptions,
+  type ManagedJob
+} from '@/services/downloadJobManager';
+
+/**
+ * Composable return type
+ */
+export interface UseDownloadJobManagerReturn {
+  /** Jobs in queue order */
+  jobs: Ref<ManagedJob[]>;
+
+  /** Whether any job is queued, running or paused */
+  hasActiveJobs: Ref<boolean>;
+
+  /** Queue a download, returns the job ID */
+  add: (config: TileDownloadConfig, priority?: number) => string;
+
+  /** Pause a job */
+  pause: (id: string) => void;
+
+  /** Resume a paused job */
+  resume: (id: string) => void;
+
+  /** Cancel a job */
+  cancel: (id: string) => void;
+
+  /** Move a job to a position in the queue */
+  move: (id: string, index: number) => void;
+
+  /** Change a job's priority */
+  setPriority: (id: string, priority: number) => void;
+
+  /** Remove a finished job */
+  remove: (id: string) => void;
+}
+
+/**
+ * Use Download Job Manager composable
+ *
+ * @param options - Job manager options
+ * @returns Job manager API
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * import { useDownloadJobManager } from '@/composables/useDownloadJobManager';
+ *
+ * const manager = useDownloadJobManager({
+ *   concurrency: 12,
+ *   onTileDownloaded: tile => storeTileInIndexedDB(tile)
+ * });
+ *
+ * manager.add({ serviceName: 'osm', url, bbox, minZoom: 10, maxZoom: 14 });
+ * </script>
+ * ```
+ */
+export function useDownloadJobManager(
+  options: Omit<DownloadJobManagerOptions, 'onChange'> = {}
+): UseDownloadJobManagerReturn {
+  const jobs = shallowRef<ManagedJob[]>([]);
+
+  const manager = new DownloadJobManager({
+    ...options,
+    onChange: snapshot => {
+      jobs.value = snapshot;
+    }
+  });
+
+  const hasActiveJobs = computed(() =>
+    jobs.value.some(job => !['completed', 'failed', 'cancelled'].includes(job.state))
+  );
+
+  onUnmounted(() => {
+    manager.dispose();
+  });
+
+  return {
+    jobs,
+    hasActiveJobs,
+    add: (config, priority) => manager.add(config, priority),
+    pause: id => manager.pause(id),
+    resume: id => manager.resume(id),
+    cancel: id => manager.cancel(id),
+    move: (id, index) => manager.move(id, index),
+    setPriority: (id, priority) => manager.setPriority(id, priority),
+    remove: id => manager.remove(id)
+  };
+}
@@ -6,16 +6,33 @@
  * @module useTileDownloader
  */
 
-import { ref, computed, onUnmounted, type Ref } from 'vue';
+import { ref, shallowRef, computed, onUnmounted, type Ref } from 'vue';
 import type {
   TileDownloadConfig,
   TileBlob,
   LiveProgress,
   DownloadStats,
   DownloadState,
-  TileDownloadResult
+  DownloadCursor,
+  TileDownloadResult,
+  TileError,
+  TileFailureFilter,
+  TileServiceAttribution,
+  UnchangedTile
 } from '@/services/tileDownloader';
 import type { WorkerCommand, WorkerResponse } from '@/workers/tileDownloaderWorker';
+import { isQuotaExceededError } from '@/services/storageQuota';
+import {
+  saveDownloadJob,
+  getDownloadJob,
+  listUnfinishedJobs,
+  listJobsWithFailures,
+  deleteDownloadJob,
+  toStoredConfig,
+  type DownloadJobRecord,
+  type DownloadJobProgress,
+  type DownloadJobState
+} from '@/utils/jobStorage';
 
 /**
  * Download modes
@@ -29,7 +46,10 @@ export interface UseTileDownloaderOptions {
   /** Download mode (default: 'main') */
   mode?: DownloadMode;
 
-  /** Callback for each downloaded tile */
+  /**
+   * Callback for each downloaded tile. If it throws a QuotaExceededError the
+   * download is paused and the tile is stored again on resume.
+   */
   onTileDownloaded?: (tile: TileBlob) => void | Promise<void>;
 
   /** Callback for progress updates */
@@ -40,8 +60,16 @@ export interface UseTileDownloaderOptions {
 
   /** Callback for errors */
   onError?: (error: Error) => void;
+
+  /** Persist jobs in IndexedDB so interrupted downloads can be resumed (default: true) */
+  persist?: boolean;
 }
 
+/**
+ * Credentials that are not persisted with a job and must be passed again on resume
+ */
+export type JobCredentials = Pick<TileDownloadConfig, 'headers' | 'refreshAuth' | 'urlVariables'>;
+
 /**
  * Composable return type
  */
@@ -58,6 +86,27 @@ export interface UseTileDownloaderReturn {
   /** Cancel download */
   cancel: () => void;
 
+  /** Resume a persisted job where it stopped */
+  resumeJob: (id: string, credentials?: JobCredentials) => Promise<void>;
+
+  /** Download the selected failed tiles of a completed job again */
+  retryFailures: (id: string, filter?: TileFailureFilter, credentials?: JobCredentials) => Promise<void>;
+
+  /** Delete a persisted job */
+  discardJob: (id: string) => Promise<void>;
+
+  /** Reload the lists of unfinished jobs and jobs with failures */
+  refreshJobs: () => Promise<void>;
+
+  /** Jobs interrupted by a reload, crash, pause or failure */
+  unfinishedJobs: Ref<DownloadJobRecord[]>;
+
+  /** Completed jobs whose failed tiles can be retried */
+  failedJobs: Ref<DownloadJobRecord[]>;
+
+  /** ID of the current persisted job */
+  jobId: Ref<string | null>;
+
   /** Current download state */
   state: Ref<DownloadState>;
 
@@ -68,7 +117,8 @@ export interface UseTileDownloaderReturn {
    * - pending: number of tiles remaining
    * - currentSpeed: download speed in bytes/sec
    * - eta: estimated time remaining in seconds
-   * - estimatedBytes: estimated total size
+   * - estimatedBytes: estimated total size, refined during the download
+   * - estimatedBytesLow/estimatedBytesHigh: ~95% confidence range of the total size
    * - percentComplete: progress as decimal (0-1)
    */
   progress: Ref<LiveProgress | null>;
@@ -127,6 +177,7 @@ export interface UseTileDownloaderReturn {
  */
 export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTileDownloaderReturn {
   const mode = options.mode ?? 'main';
+  const persist = options.persist ?? true;
 
   // State
   const state = ref<DownloadState>('idle');
@@ -134,13 +185,26 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
   const stats = ref<DownloadStats | null>(null);
   const error = ref<string | null>(null);
 
+  // Job state
+  const unfinishedJobs = shallowRef<DownloadJobRecord[]>([]);
+  const failedJobs = shallowRef<DownloadJobRecord[]>([]);
+  const jobId = ref<string | null>(null);
+  let job: DownloadJobRecord | null = null;
+  let jobBaseProgress: DownloadJobProgress | null = null;
+  let lastCursor: DownloadCursor | null = null;
+
   // Worker state
   let worker: Worker | null = null;
   let downloadId: string | null = null;
 
   // Main thread state
   let downloadResult: TileDownloadResult;
-  let progressInterval: number | null = null;
+
+  // Saved with the first tile of the run that is stored
+  let pendingAttribution: { serviceName: string; attribution: TileServiceAttribution } | null = null;
+
+  // Released by resume or cancel after the storage ran full
+  let storageFull: { promise: Promise<void>; release: () => void } | null = null;
 
   // Computed - only properties that transform/derive from state/progress
   const progressPercent = computed(() => (progress.value?.percentComplete ?? 0) * 100);
@@ -149,67 +213,187 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
   const isPaused = computed(() => state.value === 'paused');
   const isComplete = computed(() => state.value === 'completed');
 
+  /**
+   * Reload unfinished jobs (excluding the current one) and jobs with failures
+   */
+  async function refreshJobs(): Promise<void> {
+    if (!persist) return;
+    const jobs = await listUnfinishedJobs();
+    unfinishedJobs.value = jobs.filter(record => record.id !== jobId.value);
+    failedJobs.value = await listJobsWithFailures();
+  }
+
+  /**
+   * Persist job state, cursor and cumulative progress
+   */
+  function saveCheckpoint(jobState: DownloadJobState, errorMessage?: string): void {
+    if (!job || !jobBaseProgress) return;
+
+    const live = progress.value;
+    const base = jobBaseProgress;
+    job = {
+      ...job,
+      state: jobState,
+      cursor: lastCursor ?? job.cursor,
+      progress: live
+        ? {
+            totalTiles: base.totalTiles || live.totalTiles,
+            downloaded: base.downloaded + live.downloaded,
+            failed: base.failed + live.failed,
+            unchanged: base.unchanged + live.unchanged,
+            downloadedBytes: base.downloadedBytes + live.downloadedBytes
+          }
+        : job.progress,
+      error: errorMessage
+    };
+
+    saveDownloadJob(job).catch(err => console.warn('[useTileDownloader] Failed to save job:', err));
+  }
+
+  /**
+   * Remove the finished or cancelled job; a completed job with failed tiles is kept for retrying
+   */
+  function finishJob(errors: TileError[] = []): void {
+    if (!job) return;
+
+    if (errors.length > 0) {
+      keepFailures(job, errors).catch(err => console.warn('[useTileDownloader] Failed to save failed tiles:', err));
+    } else {
+      deleteDownloadJob(job.id).catch(err => console.warn('[useTileDownloader] Failed to delete job:', err));
+    }
+    job = null;
+    jobBaseProgress = null;
+    jobId.value = null;
+  }
+
+  /**
+   * Save a completed job with its failed tiles
+   */
+  async function keepFailures(record: DownloadJobRecord, errors: TileError[]): Promise<void> {
+    const { toTileFailures } = await import('../services/tileDownloader');
+
+    await saveDownloadJob({
+      ...record,
+      state: 'completed',
+      cursor: lastCursor ?? record.cursor,
+      failures: [...(record.failures ?? []), ...toTileFailures(errors)],
+      error: undefined
+    });
+    await refreshJobs();
+  }
+
+  /**
+   * Hand a tile to onTileDownloaded, pausing the download while the storage is full
+   */
+  async function storeTile(tile: TileBlob): Promise<void> {
+    if (!options.onTileDownloaded) return;
+
+    for (;;) {
+      try {
+        await options.onTileDownloaded(tile);
+        saveAttribution();
+        return;
+      } catch (err) {
+        if (!isQuotaExceededError(err)) throw err;
+
+        if (!storageFull) {
+          console.warn('[useTileDownloader] Storage is full, pausing download:', err);
+          let release = () => {};
+          const promise = new Promise<void>(resolve => { release = resolve; });
+          storageFull = { promise, release };
+          pause();
+          error.value = 'Storage is full. Free up space or enable persistent storage, then resume.';
+          saveCheckpoint('paused', error.value);
+        }
+
+        await storageFull.promise;
+        if (state.value === 'cancelled') return;
+      }
+    }
+  }
+
+  /**
+   * Save the service attribution once tiles of the run are stored, so refused or failed runs record none
+   */
+  function saveAttribution(): void {
+    if (!pendingAttribution) return;
+
+    const { serviceName, attribution } = pendingAttribution;
+    pendingAttribution = null;
+    import('../utils/tileStorage')
+      .then(({ saveServiceMetadata }) => saveServiceMetadata(serviceName, attribution))
+      .catch(err => console.warn('[useTileDownloader] Failed to save service attribution:', err));
+  }
+
+  /**
+   * Renew the timestamp and validators of a stored tile confirmed by a refresh, so it no longer counts as expired
+   */
+  function touchTile(tile: UnchangedTile): void {
+    import('../utils/tileStorage')
+      .then(({ touchTileInIndexedDB }) => touchTileInIndexedDB(tile))
+      .catch(err => console.warn('[useTileDownloader] Failed to renew unchanged tile:', err));
+  }
+
+  /**
+   * Release tiles waiting for storage space
+   */
+  function releaseStorageFull(): void {
+    storageFull?.release();
+    storageFull = null;
+  }
+
   /**
    * Start download in main thread
    */
   async function startMainThread(config: TileDownloadConfig): Promise<void> {
     const { downloadTiles } = await import('../services/tileDownloader');
+    let started = false;
 
     try {
       state.value = 'estimating';
       error.value = null;
 
       downloadResult = await downloadTiles(config);
+      started = true;
 
       state.value = 'downloading';
 
-      // Start progress monitoring
-      progressInterval = window.setInterval(() => {
-        const currentProgress = downloadResult.progress;
-        console.log('[Composable] Progress update:', currentProgress);
+      downloadResult.on('progress', currentProgress => {
         progress.value = currentProgress;
+        lastCursor = downloadResult.cursor;
+        if (state.value === 'downloading') {
+          saveCheckpoint('running');
+        }
         if (options.onProgress) {
           options.onProgress(currentProgress);
         }
-      }, 1000);
-
-      // Process tiles
-      console.log('[Composable] Starting tile iteration...');
-      let tileCount = 0;
-      for await (const tile of downloadResult.tiles) {
-        tileCount++;
-        console.log(`[Composable] Received tile #${tileCount}:`, tile.serviceName, tile.z, tile.x, tile.y);
-        if (options.onTileDownloaded) {
-          await options.onTileDownloaded(tile);
-        }
-      }
-      console.log(`[Composable] Tile iteration complete. Total tiles received: ${tileCount}`);
+      });
 
-      // Get final stats
-      const finalStats = await downloadResult.stats;
-      stats.value = finalStats;
-      progress.value = downloadResult.progress;
-
-      if (progressInterval) {
-        clearInterval(progressInterval);
-        progressInterval = null;
-      }
+      downloadResult.on('tile', tile => storeTile(tile));
+      downloadResult.on('unchanged', tile => touchTile(tile));
 
-      state.value = 'completed';
+      downloadResult.on('complete', finalStats => {
+        stats.value = finalStats;
+        progress.value = downloadResult.progress;
+        state.value = 'completed';
+        finishJob(finalStats.errors);
 
-      if (options.onComplete) {
-        options.onComplete(finalStats);
-      }
+        if (options.onComplete) {
+          options.onComplete(finalStats);
+        }
+      });
 
+      await downloadResult.start();
     } catch (err) {
-      if (progressInterval) {
-        clearInterval(progressInterval);
-        progressInterval = null;
-      }
-
       state.value = 'failed';
       error.value = err instanceof Error ? err.message : 'Download failed';
 
+      if (started) {
+        progress.value = downloadResult.progress;
+        lastCursor = downloadResult.cursor;
+      }
+      saveCheckpoint('failed', error.value);
+
       if (options.onError) {
         options.onError(err instanceof Error ? err : new Error('Download failed'));
       }
@@ -222,6 +406,18 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
    * Start download in worker thread
    */
   async function startWorkerThread(config: TileDownloadConfig): Promise<void> {
+    // Workers have no DOMParser: hand GPX corridors over as GeoJSON
+    if (typeof config.corridor?.route === 'string') {
+      const { parseGPXRoute } = await import('../services/tileArea');
+      config = { ...config, corridor: { ...config.corridor, route: parseGPXRoute(config.corridor.route) } };
+    }
+
+    // Nor can they parse capabilities: fetch them here
+    if (config.tileScheme === 'wmts' || (config.tileScheme === 'wms' && config.capabilitiesUrl)) {
+      const { prefetchCapabilities } = await import('../services/tileDownloader');
+      config = await prefetchCapabilities(config);
+    }
+
     // Create worker
     worker = new Worker(new URL('../workers/tileDownloaderWorker.ts', import.meta.url), {
       type: 'module'
@@ -248,20 +444,40 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
 
           case 'PROGRESS_UPDATE':
             progress.value = response.progress;
+            lastCursor = response.cursor;
+            if (state.value === 'downloading') {
+              saveCheckpoint('running');
+            }
             if (options.onProgress) {
               options.onProgress(response.progress);
             }
             break;
 
-          case 'TILE_DOWNLOADED':
-            if (options.onTileDownloaded) {
-              await options.onTileDownloaded(response.tile);
+          case 'TILE_DOWNLOADED': {
+            // The worker holds back further tiles and completion until the tile is stored
+            let storeError: string | undefined;
+            try {
+              await storeTile(response.tile);
+            } catch (err) {
+              storeError = err instanceof Error ? err.message : 'Failed to store tile';
             }
+            worker?.postMessage({
+              type: 'TILE_STORED',
+              id: response.id,
+              tileId: response.tileId,
+              error: storeError
+            } as WorkerCommand);
+            break;
+          }
+
+          case 'TILE_UNCHANGED':
+            touchTile(response.tile);
             break;
 
           case 'DOWNLOAD_COMPLETE':
             stats.value = response.stats;
             state.value = 'completed';
+            finishJob(response.stats.errors);
 
             if (options.onComplete) {
               options.onComplete(response.stats);
@@ -273,6 +489,8 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
           case 'DOWNLOAD_ERROR':
             state.value = 'failed';
             error.value = response.error;
+            lastCursor = response.cursor ?? lastCursor;
+            saveCheckpoint('failed', response.error);
 
             const err = new Error(response.error);
             if (options.onError) {
@@ -305,18 +523,30 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
       state.value = 'estimating';
       error.value = null;
 
+      // Functions and the shared budget do not survive serialization; headers and credentials do
+      if (config.refreshAuth) {
+        console.warn('[useTileDownloader] refreshAuth is not available in worker mode');
+      }
+
       worker.postMessage({
         type: 'START_DOWNLOAD',
         id: downloadId,
-        config: JSON.parse(JSON.stringify(config))
+        config: JSON.parse(JSON.stringify({ ...config, budget: undefined }))
       } as WorkerCommand);
     });
   }
 
   /**
-   * Start download
+   * Run download in the configured mode
    */
-  async function start(config: TileDownloadConfig): Promise<void> {
+  async function run(config: TileDownloadConfig): Promise<void> {
+    stats.value = null;
+    progress.value = null;
+    lastCursor = null;
+    pendingAttribution = config.attribution
+      ? { serviceName: config.serviceName, attribution: config.attribution }
+      : null;
+
     if (mode === 'worker') {
       console.log("[useTileDownloader] Starting as Background Worker")
       return startWorkerThread(config);
@@ -326,6 +556,100 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
     }
   }
 
+  /**
+   * Start download
+   */
+  async function start(config: TileDownloadConfig): Promise<void> {
+    if (persist) {
+      const now = Date.now();
+      job = {
+        id: `job-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        config: toStoredConfig(config),
+        state: 'running',
+        cursor: { byZoom: {}, failed: [] },
+        progress: { totalTiles: 0, downloaded: 0, failed: 0, unchanged: 0, downloadedBytes: 0 },
+        createdAt: now,
+        updatedAt: now
+      };
+      jobBaseProgress = { ...job.progress };
+      jobId.value = job.id;
+      saveCheckpoint('running');
+    }
+
+    return run(config);
+  }
+
+  /**
+   * Resume a persisted job from its cursor
+   *
+   * @param id - Job ID
+   * @param credentials - Headers, token refresh and secret URL variables, which are not persisted
+   */
+  async function resumeJob(id: string, credentials: JobCredentials = {}): Promise<void> {
+    const record = await getDownloadJob(id);
+    if (!record) {
+      throw new Error(`Download job not found: ${id}`);
+    }
+
+    job = record;
+    jobBaseProgress = { ...record.progress };
+    jobId.value = record.id;
+    unfinishedJobs.value = unfinishedJobs.value.filter(other => other.id !== id);
+    saveCheckpoint('running');
+
+    return run({
+      ...record.config,
+      ...credentials,
+      urlVariables: { ...record.config.urlVariables, ...credentials.urlVariables },
+      resumeFrom: record.cursor
+    });
+  }
+
+  /**
+   * Download the selected failed tiles of a completed job again
+   *
+   * Retried failures move to the new job; the others stay with the old one.
+   *
+   * @param id - Job ID
+   * @param filter - Which failures to retry (default: all)
+   * @param credentials - Headers, token refresh and secret URL variables, which are not persisted
+   */
+  async function retryFailures(id: string, filter: TileFailureFilter = {}, credentials: JobCredentials = {}): Promise<void> {
+    const record = await getDownloadJob(id);
+    if (!record?.failures) {
+      throw new Error(`No failed tiles for download job: ${id}`);
+    }
+
+    const { createRetryConfig, filterTileFailures } = await import('../services/tileDownloader');
+    const selected = filterTileFailures(record.failures, filter);
+    if (selected.length === 0) {
+      throw new Error('No failed tiles match the filter');
+    }
+
+    const remaining = record.failures.filter(failure => !selected.includes(failure));
+    if (remaining.length > 0) {
+      await saveDownloadJob({ ...record, failures: remaining });
+    } else {
+      await deleteDownloadJob(id);
+    }
+    await refreshJobs();
+
+    return start(createRetryConfig({
+      ...record.config,
+      ...credentials,
+      urlVariables: { ...record.config.urlVariables, ...credentials.urlVariables }
+    }, selected));
+  }
+
+  /**
+   * Delete a persisted job
+   */
+  async function discardJob(id: string): Promise<void> {
+    await deleteDownloadJob(id);
+    unfinishedJobs.value = unfinishedJobs.value.filter(record => record.id !== id);
+    failedJobs.value = failedJobs.value.filter(record => record.id !== id);
+  }
+
   /**
    * Pause download
    */
@@ -337,8 +661,10 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
       } as WorkerCommand);
     } else if (downloadResult) {
       downloadResult.pause();
+      lastCursor = downloadResult.cursor;
     }
     state.value = 'paused';
+    saveCheckpoint('paused');
   }
 
   /**
@@ -354,6 +680,9 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
       downloadResult.resume();
     }
     state.value = 'downloading';
+    error.value = null;
+    saveCheckpoint('running');
+    releaseStorageFull();
   }
 
   /**
@@ -371,26 +700,21 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
       downloadId = null;
     } else if (downloadResult) {
       downloadResult.cancel();
-
-      if (progressInterval) {
-        clearInterval(progressInterval);
-        progressInterval = null;
-      }
     }
 
     state.value = 'cancelled';
+    finishJob();
+    releaseStorageFull();
   }
 
+  // List jobs left over from previous sessions
+  refreshJobs().catch(err => console.warn('[useTileDownloader] Failed to list jobs:', err));
+
   // Cleanup on unmount
   onUnmounted(() => {
     if (worker) {
       cancel();
     }
-
-    if (progressInterval) {
-      clearInterval(progressInterval);
-      progressInterval = null;
-    }
   });
 
   return {
@@ -398,6 +722,13 @@ export function useTileDownloader(options: UseTileDownloaderOptions = {}): UseTi
     pause,
     resume,
     cancel,
+    resumeJob,
+    retryFailures,
+    discardJob,
+    refreshJobs,
+    unfinishedJobs,
+    failedJobs,
+    jobId,
     state,
     progress,
     stats,
@@ -0,0 +1,458 @@
+/**
+ * Download Job Manager
+ *
+ * Runs many tile downloads side by side under one global concurrency budget.
+ * Jobs start in queue order (highest priority first) and share tile request
+ * slots by the same order, so reordering or reprioritising a job takes effect
+ * on its next request. Runs on the main thread.
+ *
+ * @module downloadJobManager
+ */
+
+import {
+  downloadTiles,
+  ConcurrencyBudget,
+  DownloadState,
+  type TileDownloadConfig,
+  type TileDownloadResult,
+  type TileBlob,
+  type LiveProgress,
+  type DownloadStats
+} from './tileDownloader';
+import { isQuotaExceededError } from './storageQuota';
+import { saveServiceMetadata, touchTileInIndexedDB } from '../utils/tileStorage';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Managed job state
+ */
+export type ManagedJobState =
+  | 'queued'
+  | 'estimating'
+  | 'downloading'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Job snapshot
+ */
+export interface ManagedJob {
+  id: string;
+  config: TileDownloadConfig;
+  /** Higher priorities start and get request slots first (default: 0) */
+  priority: number;
+  state: ManagedJobState;
+  progress: LiveProgress | null;
+  stats: DownloadStats | null;
+  error: string | null;
+}
+
+/**
+ * Job manager options
+ */
+export interface DownloadJobManagerOptions {
+  /** Tile requests in flight across all jobs (default: 12) */
+  concurrency?: number;
+
+  /** Jobs downloading at the same time (default: 3) */
+  maxActiveJobs?: number;
+
+  /** Minimum time between progress updates of a job in ms (default: 1000) */
+  progressInterval?: number;
+
+  /**
+   * Callback for each downloaded tile. If it throws a QuotaExceededError the
+   * job is paused and the tile is stored again on resume.
+   */
+  onTileDownloaded?: (tile: TileBlob, job: ManagedJob) => void | Promise<void>;
+
+  /** Callback whenever jobs, their order or their progress change */
+  onChange?: (jobs: ManagedJob[]) => void;
+}
+
+/**
+ * Internal job state
+ */
+interface JobEntry extends ManagedJob {
+  result: TileDownloadResult | null;
+  /** Paused before the download was set up */
+  pauseRequested: boolean;
+  /** A run() is in flight, possibly still setting up the download */
+  running: boolean;
+  /** Starts a download that was paused before its first tile */
+  releasePause: (() => void) | null;
+  /** Releases the tile waiting for storage space after the storage ran full */
+  releaseStorage: (() => void) | null;
+  /** The service attribution was saved with the first stored tile */
+  attributionSaved: boolean;
+}
+
+const FINISHED_STATES: ManagedJobState[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Check for cancellation (the state changes while a job awaits)
+ */
+function isCancelled(job: ManagedJob): boolean {
+  return job.state === 'cancelled';
+}
+
+// ============================================================================
+// JOB MANAGER
+// ============================================================================
+
+/**
+ * Job manager with priorities, reordering and per-job controls
+ *
+ * @example
+ * ```typescript
+ * const manager = new DownloadJobManager({
+ *   concurrency: 12,
+ *   onTileDownloaded: tile => storeTileInIndexedDB(tile)
+ * });
+ *
+ * const basemap = manager.add({ serviceName: 'osm', url, bbox, minZoom: 10, maxZoom: 14 });
+ * const hillshade = manager.add({ serviceName: 'hillshade', url: hillshadeUrl, bbox, minZoom: 10, maxZoom: 12 }, 1);
+ * manager.move(basemap, 0);
+ * ```
+ */
+export class DownloadJobManager {
+  private jobs: JobEntry[] = [];
+  private budget: ConcurrencyBudget;
+  private maxActiveJobs: number;
+  private nextId: number = 0;
+
+  constructor(private options: DownloadJobManagerOptions = {}) {
+    this.budget = new ConcurrencyBudget(options.concurrency ?? 12);
+    this.maxActiveJobs = options.maxActiveJobs ?? 3;
+  }
+
+  /**
+   * Queue a download
+   *
+   * @param config - Download configuration
+   * @param priority - Job priority (default: 0)
+   * @returns Job ID
+   */
+  add(config: TileDownloadConfig, priority: number = 0): string {
+    const id = `job-${Date.now()}-${this.nextId++}`;
+
+    this.jobs.push({
+      id,
+      config,
+      priority,
+      state: 'queued',
+      progress: null,
+      stats: null,
+      error: null,
+      result: null,
+      pauseRequested: false,
+      running: false,
+      releasePause: null,
+      releaseStorage: null,
+      attributionSaved: false
+    });
+
+    this.sortJobs();
+    this.notify();
+    this.schedule();
+    return id;
+  }
+
+  /**
+   * Change a job's priority
+   */
+  setPriority(id: string, priority: number): void {
+    const job = this.getJob(id);
+    job.priority = priority;
+
+    this.sortJobs();
+    this.notify();
+    this.schedule();
+  }
+
+  /**
+   * Move a job to a position in the queue
+   *
+   * The job takes over the priority of its new neighbour, so the order stays
+   * consistent with priorities.
+   */
+  move(id: string, index: number): void {
+    const job = this.getJob(id);
+    const others = this.jobs.filter(other => other !== job);
+    const position = Math.max(0, Math.min(index, others.length));
+
+    const neighbour = others[position] ?? others[position - 1];
+    if (neighbour) {
+      job.priority = neighbour.priority;
+    }
+
+    others.splice(position, 0, job);
+    this.jobs = others;
+
+    this.notify();
+    this.schedule();
+  }
+
+  /**
+   * Pause a job (queued jobs are held back until resumed)
+   */
+  pause(id: string): void {
+    const job = this.getJob(id);
+    if (FINISHED_STATES.includes(job.state) || job.state === 'paused') return;
+
+    if (job.state === 'downloading' && job.result) {
+      // All tiles are done and run() only awaits the final stats: nothing left to pause
+      if (job.result.progress.state !== DownloadState.DOWNLOADING) return;
+      job.result.pause();
+    }
+    // Downloads still being set up are held back before their first tile
+    job.pauseRequested = true;
+    job.state = 'paused';
+
+    this.notify();
+    this.schedule();
+  }
+
+  /**
+   * Resume a paused job
+   */
+  resume(id: string): void {
+    const job = this.getJob(id);
+    if (job.state !== 'paused') return;
+
+    job.pauseRequested = false;
+    job.error = null;
+    if (job.releasePause) {
+      job.state = 'downloading';
+      this.releasePause(job);
+    } else if (job.result) {
+      job.result.resume();
+      job.state = 'downloading';
+    } else {
+      // A run still setting up the download picks up the resume
+      job.state = job.running ? 'estimating' : 'queued';
+    }
+    this.releaseStorage(job);
+
+    this.notify();
+    this.schedule();
+  }
+
+  /**
+   * Cancel a job
+   */
+  cancel(id: string): void {
+    const job = this.getJob(id);
+    if (FINISHED_STATES.includes(job.state)) return;
+
+    job.result?.cancel();
+    job.state = 'cancelled';
+    this.releasePause(job);
+    this.releaseStorage(job);
+
+    this.notify();
+    this.schedule();
+  }
+
+  /**
+   * Remove a finished job from the list
+   */
+  remove(id: string): void {
+    const job = this.getJob(id);
+    if (!FINISHED_STATES.includes(job.state)) {
+      throw new Error(`Cannot remove job ${id} while it is ${job.state}`);
+    }
+
+    this.jobs = this.jobs.filter(other => other !== job);
+    this.notify();
+  }
+
+  /**
+   * Job snapshots in queue order
+   */
+  getJobs(): ManagedJob[] {
+    return this.jobs.map(({
+      result: _result,
+      pauseRequested: _pauseRequested,
+      running: _running,
+      releasePause: _releasePause,
+      releaseStorage: _releaseStorage,
+      attributionSaved: _attributionSaved,
+      ...job
+    }) => ({ ...job }));
+  }
+
+  /**
+   * Cancel all jobs
+   */
+  dispose(): void {
+    for (const job of this.jobs) {
+      if (!FINISHED_STATES.includes(job.state)) {
+        job.result?.cancel();
+        job.state = 'cancelled';
+        this.releasePause(job);
+        this.releaseStorage(job);
+      }
+    }
+
+    this.notify();
+  }
+
+  private getJob(id: string): JobEntry {
+    const job = this.jobs.find(entry => entry.id === id);
+    if (!job) {
+      throw new Error(`Download job not found: ${id}`);
+    }
+    return job;
+  }
+
+  /**
+   * Stable sort by priority, keeping queue order within a priority
+   */
+  private sortJobs(): void {
+    this.jobs = this.jobs
+      .map((job, index) => ({ job, index }))
+      .sort((a, b) => b.job.priority - a.job.priority || a.index - b.index)
+      .map(({ job }) => job);
+  }
+
+  /**
+   * Slot priority of a job: earlier in the queue means higher
+   */
+  private getSlotPriority(job: JobEntry): number {
+    return -this.jobs.indexOf(job);
+  }
+
+  /**
+   * Start queued jobs while fewer than maxActiveJobs are running
+   */
+  private schedule(): void {
+    const running = this.jobs.filter(job =>
+      job.state === 'estimating' || job.state === 'downloading'
+    ).length;
+
+    const queued = this.jobs.filter(job => job.state === 'queued');
+    for (const job of queued.slice(0, Math.max(0, this.maxActiveJobs - running))) {
+      this.run(job);
+    }
+  }
+
+  /**
+   * Run a job to completion
+   */
+  private async run(job: JobEntry): Promise<void> {
+    job.running = true;
+    job.state = 'estimating';
+    this.notify();
+
+    try {
+      job.result = await downloadTiles({
+        ...job.config,
+        budget: this.budget,
+        priority: () => this.getSlotPriority(job),
+        progressInterval: this.options.progressInterval
+      });
+
+      job.result.on('progress', progress => {
+        job.progress = progress;
+        this.notify();
+      });
+
+      // Renew stored tiles confirmed by a refresh, so they no longer count as expired
+      job.result.on('unchanged', tile => touchTileInIndexedDB(tile)
+        .catch(error => console.warn(`[DownloadJobManager] Failed to renew unchanged tile of job ${job.id}:`, error)));
+
+      // The job may have been cancelled while estimating
+      if (isCancelled(job)) {
+        job.result.cancel();
+        return;
+      }
+
+      // Paused while estimating: the download cannot be paused before it started, so wait here
+      if (job.pauseRequested) {
+        await new Promise<void>(resolve => {
+          job.releasePause = resolve;
+        });
+        if (isCancelled(job)) return;
+      } else {
+        job.state = 'downloading';
+      }
+      this.notify();
+
+      for await (const tile of job.result.tiles) {
+        await this.storeTile(job, tile);
+      }
+
+      job.stats = await job.result.done;
+      job.progress = job.result.progress;
+      if (!isCancelled(job)) {
+        job.state = 'completed';
+      }
+    } catch (error) {
+      job.state = 'failed';
+      job.error = error instanceof Error ? error.message : 'Download failed';
+      console.error(`[DownloadJobManager] Job ${job.id} failed:`, error);
+    } finally {
+      job.running = false;
+      this.notify();
+      this.schedule();
+    }
+  }
+
+  /**
+   * Hand a tile to onTileDownloaded, pausing the job while the storage is full
+   */
+  private async storeTile(job: JobEntry, tile: TileBlob): Promise<void> {
+    if (!this.options.onTileDownloaded) return;
+
+    for (;;) {
+      try {
+        await this.options.onTileDownloaded(tile, { ...job });
+        this.saveAttribution(job);
+        return;
+      } catch (error) {
+        if (!isQuotaExceededError(error)) throw error;
+
+        console.warn(`[DownloadJobManager] Storage is full, pausing job ${job.id}:`, error);
+        await new Promise<void>(resolve => {
+          job.releaseStorage = resolve;
+          this.pause(job.id);
+          job.error = 'Storage is full. Free up space, then resume.';
+          this.notify();
+        });
+        if (isCancelled(job)) return;
+      }
+    }
+  }
+
+  /**
+   * Save the service attribution with the first stored tile, so refused or failed jobs record none
+   */
+  private saveAttribution(job: JobEntry): void {
+    const { serviceName, attribution } = job.config;
+    if (!attribution || job.attributionSaved) return;
+
+    job.attributionSaved = true;
+    saveServiceMetadata(serviceName, attribution)
+      .catch(error => console.warn(`[DownloadJobManager] Failed to save attribution of job ${job.id}:`, error));
+  }
+
+  private releasePause(job: JobEntry): void {
+    job.releasePause?.();
+    job.releasePause = null;
+  }
+
+  private releaseStorage(job: JobEntry): void {
+    job.releaseStorage?.();
+    job.releaseStorage = null;
+  }
+
+  private notify(): void {
+    this.options.onChange?.(this.getJobs());
+  }
+}
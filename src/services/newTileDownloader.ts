@@ -1,6 +1,22 @@
 import { createXYZ } from "ol/tilegrid";
 import { get as getProjection, transformExtent } from "ol/proj";
 import { containsExtent } from "ol/extent";
+import {
+  checkURLTemplate,
+  expandURLTemplate,
+  redactURL,
+  type TemplateOptions,
+} from "./urlTemplate";
+import {
+  validateTilePayload,
+  type TileType,
+  type TileValidationOptions,
+} from "./tileValidation";
+import {
+  checkTileUsagePolicies,
+  TileUsagePolicyError,
+  type TileUsagePolicyMode,
+} from "./tileUsagePolicy";
 
 /** Must be WGS84 */
 type Bbox = [number, number, number, number];
@@ -18,6 +34,16 @@ interface TileSourceConfig {
   sourceName: string;
   sourceUrl: string;
   sourceSubdomains: string[];
+  /** Values for {r}, {ext} and custom placeholders in sourceUrl */
+  sourceTemplateOptions?: TemplateOptions;
+  /** Headers, credentials and referrer for authenticated sources */
+  sourceRequestInit?: RequestInit;
+  /** Raster images or Mapbox Vector Tiles (default: "raster") */
+  sourceTileType?: TileType;
+  /** Decode check and placeholder hashes for downloaded tiles */
+  sourceValidation?: TileValidationOptions;
+  /** Reject, only log, or allow downloads that violate the usage policy of the source (default: "enforce") */
+  sourceUsagePolicy?: TileUsagePolicyMode;
   /** Must be WGS84 */
   bbox: Bbox;
   minZoom: number;
@@ -52,6 +78,18 @@ export function createTileRangeCollection(
     );
   }
 
+  const { missing, unknown, unfilled } = checkURLTemplate(
+    targetArea.sourceUrl,
+    targetArea.sourceTemplateOptions
+  );
+  if (missing.length > 0 || unknown.length > 0 || unfilled.length > 0) {
+    throw new Error(
+      `Invalid url ${targetArea.sourceUrl}: ` +
+        [...missing, ...unknown, ...unfilled].map((name) => `{${name}}`).join(", ") +
+        " missing, unknown or without value"
+    );
+  }
+
   const tileGrid = createXYZ({
     extent: getProjection(targetArea.crs)?.getExtent(),
     maxZoom: targetArea.maxZoom,
@@ -71,6 +109,8 @@ export function createTileRangeCollection(
     .map((range) => range.count)
     .reduce((previousCount, currentCount) => previousCount + currentCount);
 
+  checkUsagePolicies(targetArea, tileRanges);
+
   return {
     totalCount,
     tileRanges,
@@ -80,39 +120,96 @@ export function createTileRangeCollection(
     sourceName: targetArea.sourceName,
     sourceUrl: targetArea.sourceUrl,
     sourceSubdomains: targetArea.sourceSubdomains,
+    sourceTemplateOptions: targetArea.sourceTemplateOptions,
+    sourceRequestInit: targetArea.sourceRequestInit,
+    sourceTileType: targetArea.sourceTileType,
+    sourceValidation: targetArea.sourceValidation,
+    sourceUsagePolicy: targetArea.sourceUsagePolicy,
   };
 }
 
-export async function downloadTile(url: string): Promise<Blob> {
-  return fetch(url)
+/**
+ * Check the tile ranges against the usage policies of the source's hosts
+ *
+ * @throws TileUsagePolicyError if a policy is violated and `sourceUsagePolicy` is "enforce"
+ */
+function checkUsagePolicies(
+  source: TileSourceConfig,
+  tileRanges: TileRange[]
+): void {
+  const mode = source.sourceUsagePolicy ?? "enforce";
+  if (mode === "ignore" || tileRanges.length === 0) return;
+
+  // Tile URLs differ in the subdomain only, so one URL per subdomain covers all hosts
+  const { minX, minY, zoom } = tileRanges[0] as TileRange;
+  const subdomains = source.sourceSubdomains?.length ? source.sourceSubdomains : [""];
+  const hosts = new Set<string>();
+  for (const subdomain of subdomains) {
+    const url = expandURLTemplate(
+      source.sourceUrl,
+      { x: minX, y: minY, z: zoom },
+      source.sourceTemplateOptions,
+      subdomain
+    );
+    try {
+      hosts.add(new URL(url).host);
+    } catch {
+      console.warn(`[checkUsagePolicies] Cannot parse host of ${redactURL(url)}`);
+    }
+  }
+
+  const violated = checkTileUsagePolicies({
+    hosts: Array.from(hosts),
+    tilesByZoom: new Map(tileRanges.map((range) => [range.zoom, range.count])),
+  }).filter((check) => check.violations.length > 0);
+
+  if (violated.length > 0 && mode === "enforce") {
+    throw new TileUsagePolicyError(violated);
+  }
+  for (const check of violated) {
+    console.warn(`[checkUsagePolicies] ${check.summary}`);
+  }
+}
+
+export async function downloadTile(
+  url: string,
+  init?: RequestInit,
+  validation?: TileValidationOptions,
+  tileType?: TileType
+): Promise<Blob> {
+  return fetch(url, init)
     .then((response) => {
       if (response.ok) {
         return response.blob();
       } else {
         return Promise.reject(
           new Error(
-            `GET ${response.url} failed with ${response.status} ${response.statusText}`
+            `GET ${redactURL(response.url)} failed with ${response.status} ${response.statusText}`
           )
         );
       }
     })
-    .then((blob) => {
-      // Verify it's an image
-      if (!blob.type.startsWith("image/")) {
-        return Promise.reject(new Error("Response is not an image"));
-      } else {
-        return blob;
-      }
-    });
+    .then((blob) => validateTilePayload(blob, validation, tileType));
 }
 
 export async function* downloadTiles(
   tileRangeCollection: TileRangeCollection,
   options: { maxParallelDownloads: number } = { maxParallelDownloads: 6 }
 ): AsyncGenerator<Blob, void, unknown> {
-  const { tileRanges, sourceUrl, sourceSubdomains } = tileRangeCollection;
+  const {
+    tileRanges,
+    sourceUrl,
+    sourceSubdomains,
+    sourceTemplateOptions,
+    sourceRequestInit,
+    sourceTileType,
+    sourceValidation,
+  } = tileRangeCollection;
   const pendingDownloads = new Set<Promise<Blob>>();
 
+  // Collections can be built by hand, so check again before any tile is requested
+  checkUsagePolicies(tileRangeCollection, tileRanges);
+
   function* generateTileURLs() {
     let currentSubdomainIndex = 0;
 
@@ -123,13 +220,13 @@ export async function* downloadTiles(
           currentSubdomainIndex =
             (currentSubdomainIndex + 1) % sourceSubdomains?.length;
 
-          let url = sourceUrl
-            .replace("{x}", x.toString())
-            .replace("{y}", y.toString())
-            // TMS has origin at bottom-left, need to invert
-            .replace("{-y}", (Math.pow(2, zoom) - 1 - y).toString())
-            .replace("{z}", zoom.toString())
-            .replace("{s}", sourceSubdomains[currentSubdomainIndex] ?? "");
+          // {-y} covers TMS sources, whose origin is at the bottom-left
+          const url = expandURLTemplate(
+            sourceUrl,
+            { x, y, z: zoom },
+            sourceTemplateOptions,
+            sourceSubdomains[currentSubdomainIndex] ?? ""
+          );
 
           yield url;
         }
@@ -138,7 +235,7 @@ export async function* downloadTiles(
   }
 
   for (const url of generateTileURLs()) {
-    const tile = downloadTile(url);
+    const tile = downloadTile(url, sourceRequestInit, sourceValidation, sourceTileType);
     pendingDownloads.add(tile);
     tile.then(() => pendingDownloads.delete(tile));
 
@@ -0,0 +1,120 @@
+/**
+ * Storage Quota
+ *
+ * Compares the estimated size of a download with the space the browser
+ * grants this origin before the download starts, and recognises quota errors
+ * raised while tiles are stored.
+ *
+ * @module storageQuota
+ */
+
+import type { SizeRange } from './tileDownloader';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * What to do when a download may not fit: throw, only log, or skip the check
+ */
+export type StorageQuotaPolicy = 'refuse' | 'warn' | 'ignore';
+
+/**
+ * Result of the storage pre-flight check
+ */
+export interface StorageQuotaCheck {
+  /** Bytes used by this origin */
+  usage: number;
+
+  /** Bytes this origin may use */
+  quota: number;
+
+  /** Bytes left (quota - usage) */
+  available: number;
+
+  /** Estimated download size */
+  required: SizeRange;
+
+  /** Persistent storage is not cleared by the browser under storage pressure */
+  persisted: boolean;
+
+  /** 'ok': the high estimate fits; 'tight': only the expected size fits; 'insufficient': the expected size does not fit */
+  status: 'ok' | 'tight' | 'insufficient';
+
+  /** Breakdown for error messages and UIs */
+  summary: string;
+}
+
+/**
+ * Download refused because the expected size exceeds the available storage
+ */
+export class StorageQuotaError extends Error {
+  constructor(public readonly check: StorageQuotaCheck) {
+    super(check.summary);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+// ============================================================================
+// PRE-FLIGHT CHECK
+// ============================================================================
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let i = 0;
+
+  while (value >= 1024 && i < units.length - 1) {
+    value /= 1024;
+    i++;
+  }
+
+  return `${value.toFixed(1)} ${units[i]}`;
+}
+
+/**
+ * Check whether a download of the given size fits into the browser storage
+ *
+ * @param required - Estimated download size
+ * @returns Check result, or null if the Storage API is not available
+ */
+export async function checkStorageQuota(required: SizeRange): Promise<StorageQuotaCheck | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  const available = Math.max(0, quota - usage);
+
+  const status = required.expected > available
+    ? 'insufficient'
+    : required.high > available ? 'tight' : 'ok';
+
+  const lines = [
+    `Download needs about ${formatBytes(required.expected)} (${formatBytes(required.low)} – ${formatBytes(required.high)}), ` +
+      `${formatBytes(available)} of ${formatBytes(quota)} available (${formatBytes(usage)} used).`
+  ];
+  if (status === 'insufficient') {
+    lines.push('Free up space or choose a smaller area or zoom range.');
+  } else if (status === 'tight') {
+    lines.push('The download may run out of space before it completes.');
+  }
+  if (!persisted) {
+    lines.push('Storage is not persistent, so the browser may clear stored tiles when space runs low.');
+  }
+
+  return { usage, quota, available, required, persisted, status, summary: lines.join(' ') };
+}
+
+// ============================================================================
+// QUOTA ERRORS
+// ============================================================================
+
+/**
+ * Check for a quota error from IndexedDB (also the legacy Firefox name)
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof Error
+    && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
@@ -0,0 +1,398 @@
+/**
+ * Tile Area Geometry
+ *
+ * Turns non-rectangular download areas (GeoJSON Polygon/MultiPolygon, buffered
+ * route corridors) into per-row tile spans, so only tiles whose extent
+ * intersects the geometry are enumerated at each zoom level.
+ *
+ * @module tileArea
+ */
+
+import type TileGrid from 'ol/tilegrid/TileGrid';
+import type { Extent } from 'ol/extent';
+import { get as getProjection, getPointResolution, getTransform } from 'ol/proj';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * GeoJSON Polygon geometry (coordinates in EPSG:4326)
+ */
+export interface GeoJSONPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+/**
+ * GeoJSON MultiPolygon geometry (coordinates in EPSG:4326)
+ */
+export interface GeoJSONMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+/**
+ * Download area geometry
+ */
+export type AreaGeometry = GeoJSONPolygon | GeoJSONMultiPolygon;
+
+/**
+ * GeoJSON LineString geometry (coordinates in EPSG:4326)
+ */
+export interface GeoJSONLineString {
+  type: 'LineString';
+  coordinates: number[][];
+}
+
+/**
+ * GeoJSON MultiLineString geometry (coordinates in EPSG:4326)
+ */
+export interface GeoJSONMultiLineString {
+  type: 'MultiLineString';
+  coordinates: number[][][];
+}
+
+/**
+ * Corridor along a route line
+ */
+export interface CorridorConfig {
+  /** Route as GeoJSON LineString/MultiLineString or GPX document text */
+  route: GeoJSONLineString | GeoJSONMultiLineString | string;
+
+  /** Buffer distance in metres on each side of the route */
+  buffer: number;
+
+  /** Buffer distance in metres per zoom level (falls back to `buffer`) */
+  bufferByZoom?: Record<number, number>;
+}
+
+/**
+ * Polygon in the target CRS: a list of rings, the first one being the exterior ring
+ */
+export type ProjectedPolygon = number[][][];
+
+/**
+ * Contiguous run of tile columns within one tile row
+ */
+export interface TileRowSpan {
+  y: number;
+  minX: number;
+  maxX: number;
+}
+
+/**
+ * Inclusive tile bounds at one zoom level
+ */
+interface TileBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// ============================================================================
+// GEOMETRY PREPARATION
+// ============================================================================
+
+/**
+ * Transform a Polygon/MultiPolygon from EPSG:4326 into the target CRS
+ */
+export function projectAreaGeometry(geometry: AreaGeometry, crs: string): ProjectedPolygon[] {
+  const toCRS = getTransform('EPSG:4326', crs);
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+  if (polygons.length === 0 || polygons.some(rings => rings.length === 0)) {
+    throw new Error(`Invalid ${geometry.type}: no rings found`);
+  }
+
+  return polygons.map(rings =>
+    rings.map(ring => ring.map(coord => toCRS([coord[0] as number, coord[1] as number])))
+  );
+}
+
+/**
+ * Bounding extent of projected polygons
+ */
+export function getPolygonsExtent(polygons: ProjectedPolygon[]): Extent {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const rings of polygons) {
+    // Holes lie within the exterior ring, so it alone defines the extent
+    for (const [x, y] of (rings[0] ?? []) as Array<[number, number]>) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+
+  return [minX, minY, maxX, maxY];
+}
+
+// ============================================================================
+// CORRIDOR BUFFERING
+// ============================================================================
+
+/** Vertices used to approximate each half circle of a buffered segment */
+const CAP_SEGMENTS = 8;
+
+/**
+ * Extract route lines from GPX tracks and routes
+ *
+ * Needs DOMParser, which Web Workers lack: convert GPX on the main thread
+ * before handing a corridor to a worker.
+ *
+ * @param gpx - GPX document text
+ * @returns Tracks and routes as MultiLineString
+ */
+export function parseGPXRoute(gpx: string): GeoJSONMultiLineString {
+  if (typeof DOMParser === 'undefined') {
+    throw new Error('GPX routes cannot be parsed here (no DOMParser); pass the route as GeoJSON LineString/MultiLineString');
+  }
+
+  const doc = new DOMParser().parseFromString(gpx, 'text/xml');
+
+  if (doc.querySelector('parsererror')) {
+    throw new Error('Invalid GPX document');
+  }
+
+  const toLine = (points: Element[]) =>
+    points.map(pt => [
+      parseFloat(pt.getAttribute('lon') ?? 'NaN'),
+      parseFloat(pt.getAttribute('lat') ?? 'NaN')
+    ]).filter(([lon, lat]) => !isNaN(lon as number) && !isNaN(lat as number));
+
+  const lines = [
+    ...Array.from(doc.querySelectorAll('trkseg')).map(seg => toLine(Array.from(seg.querySelectorAll('trkpt')))),
+    ...Array.from(doc.querySelectorAll('rte')).map(rte => toLine(Array.from(rte.querySelectorAll('rtept'))))
+  ];
+
+  return { type: 'MultiLineString', coordinates: lines.filter(line => line.length > 0) };
+}
+
+/**
+ * Transform the corridor route into lines in the target CRS
+ */
+export function projectCorridorRoute(corridor: CorridorConfig, crs: string): number[][][] {
+  const lines = typeof corridor.route === 'string'
+    ? parseGPXRoute(corridor.route).coordinates
+    : corridor.route.type === 'LineString'
+      ? [corridor.route.coordinates]
+      : corridor.route.coordinates;
+
+  if (lines.length === 0) {
+    throw new Error('Corridor route contains no points');
+  }
+
+  const toCRS = getTransform('EPSG:4326', crs);
+  return lines.map(line => line.map(coord => toCRS([coord[0] as number, coord[1] as number])));
+}
+
+/**
+ * Buffer distance in metres for a zoom level
+ */
+export function getCorridorBuffer(corridor: CorridorConfig, z: number): number {
+  return corridor.bufferByZoom?.[z] ?? corridor.buffer;
+}
+
+/**
+ * Polygon covering all points within `radius` of the segment p-q (a "capsule").
+ * Cap vertices lie on a circumscribed polygon so the approximation never falls
+ * inside the true buffer.
+ */
+function bufferSegment(p: [number, number], q: [number, number], radius: number): ProjectedPolygon {
+  const angle = Math.atan2(q[1] - p[1], q[0] - p[0]);
+  const step = Math.PI / CAP_SEGMENTS;
+  const outerRadius = radius / Math.cos(step / 2);
+  const ring: number[][] = [];
+
+  // Half circle around q, then around p, walking counter-clockwise
+  for (let i = 0; i <= CAP_SEGMENTS; i++) {
+    const a = angle - Math.PI / 2 + i * step;
+    ring.push([q[0] + outerRadius * Math.cos(a), q[1] + outerRadius * Math.sin(a)]);
+  }
+  for (let i = 0; i <= CAP_SEGMENTS; i++) {
+    const a = angle + Math.PI / 2 + i * step;
+    ring.push([p[0] + outerRadius * Math.cos(a), p[1] + outerRadius * Math.sin(a)]);
+  }
+  ring.push(ring[0]!);
+
+  return [ring];
+}
+
+/**
+ * Buffer projected route lines by a distance in metres.
+ *
+ * Returns one capsule polygon per segment; overlapping polygons are fine since
+ * row spans are merged across polygons.
+ */
+export function bufferRouteLines(lines: number[][][], crs: string, bufferMetres: number): ProjectedPolygon[] {
+  const projection = getProjection(crs);
+  if (!projection) {
+    throw new Error(`Unknown projection: ${crs}`);
+  }
+
+  const polygons: ProjectedPolygon[] = [];
+
+  for (const line of lines) {
+    const points = line as Array<[number, number]>;
+
+    // A single-point line still yields one (circular) buffer
+    const segmentCount = Math.max(points.length - 1, 1);
+
+    for (let i = 0; i < segmentCount; i++) {
+      const p = points[i]!;
+      const q = points[i + 1] ?? p;
+
+      // Convert metres to CRS units at the segment midpoint
+      const midpoint = [(p[0] + q[0]) / 2, (p[1] + q[1]) / 2];
+      const metresPerUnit = getPointResolution(projection, 1, midpoint, 'm');
+      polygons.push(bufferSegment(p, q, bufferMetres / metresPerUnit));
+    }
+  }
+
+  return polygons;
+}
+
+// ============================================================================
+// ROW SPAN CALCULATION
+// ============================================================================
+
+/**
+ * Merge overlapping or touching [min, max] intervals
+ */
+function mergeIntervals(intervals: Array<[number, number]>): Array<[number, number]> {
+  if (intervals.length === 0) return intervals;
+
+  intervals.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [[...intervals[0]!]];
+
+  for (let i = 1; i < intervals.length; i++) {
+    const current = intervals[i]!;
+    const last = merged[merged.length - 1]!;
+    if (current[0] <= last[1]) {
+      last[1] = Math.max(last[1], current[1]);
+    } else {
+      merged.push([current[0], current[1]]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Intervals of a horizontal line that lie inside a polygon (even-odd rule, so holes are excluded)
+ */
+function scanlineIntervals(rings: ProjectedPolygon, lineY: number): Array<[number, number]> {
+  const crossings: number[] = [];
+
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [x1, y1] = ring[j] as [number, number];
+      const [x2, y2] = ring[i] as [number, number];
+
+      if ((y1 > lineY) !== (y2 > lineY)) {
+        crossings.push(x1 + ((lineY - y1) / (y2 - y1)) * (x2 - x1));
+      }
+    }
+  }
+
+  crossings.sort((a, b) => a - b);
+
+  const intervals: Array<[number, number]> = [];
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    intervals.push([crossings[i]!, crossings[i + 1]!]);
+  }
+  return intervals;
+}
+
+/**
+ * X-projection of the intersection between a polygon and a horizontal band.
+ *
+ * The boundary of every component of (polygon ∩ band) consists of clipped polygon
+ * edges and the parts of the band's two border lines that lie inside the polygon,
+ * so projecting those pieces yields exactly the projection of the intersection.
+ */
+function bandIntervals(rings: ProjectedPolygon, bandMinY: number, bandMaxY: number): Array<[number, number]> {
+  const intervals: Array<[number, number]> = [
+    ...scanlineIntervals(rings, bandMinY),
+    ...scanlineIntervals(rings, bandMaxY)
+  ];
+
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [x1, y1] = ring[j] as [number, number];
+      const [x2, y2] = ring[i] as [number, number];
+
+      if (Math.max(y1, y2) < bandMinY || Math.min(y1, y2) > bandMaxY) continue;
+
+      if (y1 === y2) {
+        intervals.push([Math.min(x1, x2), Math.max(x1, x2)]);
+        continue;
+      }
+
+      // Clip segment to the band
+      const tA = Math.min(Math.max((bandMinY - y1) / (y2 - y1), 0), 1);
+      const tB = Math.min(Math.max((bandMaxY - y1) / (y2 - y1), 0), 1);
+      const xA = x1 + tA * (x2 - x1);
+      const xB = x1 + tB * (x2 - x1);
+      intervals.push([Math.min(xA, xB), Math.max(xA, xB)]);
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * Calculate the tile spans covering the given polygons at one zoom level
+ *
+ * @param polygons - Polygons in the tile grid's CRS
+ * @param tileGrid - Tile grid used for the download
+ * @param z - Zoom level
+ * @param bounds - Tile bounds of the polygons' extent at this zoom level
+ * @returns Row spans sorted by row and column
+ */
+export function polygonRowSpans(
+  polygons: ProjectedPolygon[],
+  tileGrid: TileGrid,
+  z: number,
+  bounds: TileBounds
+): TileRowSpan[] {
+  const spans: TileRowSpan[] = [];
+  const extents = polygons.map(rings => getPolygonsExtent([rings]));
+
+  for (let y = bounds.minY; y <= bounds.maxY; y++) {
+    const [, bandMinY, , bandMaxY] = tileGrid.getTileCoordExtent([z, bounds.minX, y]) as [number, number, number, number];
+
+    const intervals: Array<[number, number]> = [];
+    polygons.forEach((rings, i) => {
+      const [, minY, , maxY] = extents[i] as [number, number, number, number];
+      if (maxY < bandMinY || minY > bandMaxY) return;
+      intervals.push(...bandIntervals(rings, bandMinY, bandMaxY));
+    });
+
+    // Map coordinate intervals onto tile columns and merge adjacent runs
+    const columns: Array<[number, number]> = [];
+    for (const [minCoord, maxCoord] of mergeIntervals(intervals)) {
+      const range = tileGrid.getTileRangeForExtentAndZ(
+        [minCoord, bandMinY, maxCoord, bandMaxY],
+        z
+      );
+      const minX = Math.max(range.minX, bounds.minX);
+      const maxX = Math.min(range.maxX, bounds.maxX);
+      if (minX <= maxX) {
+        columns.push([minX, maxX + 1]);
+      }
+    }
+
+    for (const [minX, maxXExclusive] of mergeIntervals(columns)) {
+      spans.push({ y, minX, maxX: maxXExclusive - 1 });
+    }
+  }
+
+  return spans;
+}
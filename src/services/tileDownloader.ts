@@ -1,7 +1,8 @@
 /**
  * Tile Downloader Service
  *
- * Downloads XYZ/TMS/WMTS map tiles from tile servers for offline use.
+ * Downloads XYZ/TMS/WMTS map tiles from tile servers (and WMS layers sliced
+ * into tiles) for offline use.
  * Supports multiple CRS, retry logic, progress tracking, and pause/resume/cancel controls.
  *
  * @module tileDownloader
@@ -9,14 +10,69 @@
 
 import { get as getProjection } from 'ol/proj';
 import TileGrid from 'ol/tilegrid/TileGrid';
+import WMTSTileGrid from 'ol/tilegrid/WMTS';
 import { createXYZ } from 'ol/tilegrid';
 import { getTopLeft, getWidth } from 'ol/extent';
+import { toSize } from 'ol/size';
 import { fromLonLat, transformExtent } from 'ol/proj';
+import {
+  projectAreaGeometry,
+  projectCorridorRoute,
+  bufferRouteLines,
+  getCorridorBuffer,
+  getPolygonsExtent,
+  polygonRowSpans,
+  type AreaGeometry,
+  type CorridorConfig,
+  type ProjectedPolygon,
+  type TileRowSpan
+} from './tileArea';
+import {
+  parseURLTemplate,
+  checkURLTemplate,
+  expandURLTemplate,
+  getSecretVariables,
+  redactURL,
+  type TemplateOptions
+} from './urlTemplate';
+import {
+  validateTilePayload,
+  TilePayloadError,
+  type TileType,
+  type TileValidationOptions
+} from './tileValidation';
+import {
+  checkStorageQuota,
+  StorageQuotaError,
+  type StorageQuotaCheck,
+  type StorageQuotaPolicy
+} from './storageQuota';
+import {
+  checkTileUsagePolicies,
+  TileUsagePolicyError,
+  type TileUsageCheck,
+  type TileUsagePolicyMode
+} from './tileUsagePolicy';
+import { isTileExpired, type ExpiryPolicy } from './tileExpiry';
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
+/**
+ * Tile addressing scheme
+ */
+export type TileScheme = 'xyz' | 'tms' | 'wmts' | 'wms';
+
+/**
+ * Download order of tiles
+ * - 'row': zoom by zoom, row by row (default)
+ * - 'zoom': breadth-first, zoom by zoom in quadtree order, so each level refines the previous one block by block
+ * - 'spiral': zoom by zoom, centre of the area outward
+ * - 'viewport': tiles in `viewport` first (low zoom first), then the rest outward from the viewport centre
+ */
+export type TileOrder = 'row' | 'zoom' | 'spiral' | 'viewport';
+
 /**
  * Configuration for tile download operation
  */
@@ -24,11 +80,32 @@ export interface TileDownloadConfig {
   /** Service identifier for organizing tiles */
   serviceName: string;
 
-  /** Tile URL template with {x}, {y}, {z}, and optional {s} placeholders */
+  /** Attribution and licence of the service; `useTileDownloader` and `DownloadJobManager` save it with the first stored tile (see `saveServiceMetadata`) */
+  attribution?: TileServiceAttribution;
+
+  /** Tile URL template with {x}, {y}, {z} (or {q}) and optional {s}, {-y}, {r}, {ext} and custom placeholders */
   url: string;
 
-  /** Bounding box [minLon, minLat, maxLon, maxLat] in EPSG:4326 */
-  bbox: [number, number, number, number];
+  /** Values for custom URL placeholders, e.g. { apikey: '...' } for {apikey} */
+  urlVariables?: Record<string, string>;
+
+  /** Request high-DPI tiles: {r} becomes '@2x' (default: false) */
+  retina?: boolean;
+
+  /** File extension for the {ext} placeholder */
+  extension?: string;
+
+  /** Bounding box [minLon, minLat, maxLon, maxLat] in EPSG:4326 (required unless `area`, `corridor` or `tiles` is set) */
+  bbox?: [number, number, number, number];
+
+  /** Polygon/MultiPolygon download area in EPSG:4326; only tiles intersecting it are downloaded */
+  area?: AreaGeometry;
+
+  /** Corridor along a route (LineString or GPX track) buffered by a distance in metres */
+  corridor?: CorridorConfig;
+
+  /** Download exactly these tiles (y in the configured tile scheme) instead of an area, e.g. failures of an earlier run */
+  tiles?: Array<{ z: number; x: number; y: number }>;
 
   /** Minimum zoom level (inclusive) */
   minZoom: number;
@@ -36,6 +113,12 @@ export interface TileDownloadConfig {
   /** Maximum zoom level (inclusive) */
   maxZoom: number;
 
+  /** Download order, so interrupted downloads leave useful coverage (default: 'row') */
+  order?: TileOrder;
+
+  /** Current map viewport [minLon, minLat, maxLon, maxLat] in EPSG:4326 for the 'viewport' order */
+  viewport?: [number, number, number, number];
+
   /** Coordinate reference system (default: 'EPSG:3857') */
   crs?: string;
 
@@ -43,25 +126,216 @@ export interface TileDownloadConfig {
   subdomains?: string[];
 
   /** Tile scheme (default: 'xyz') */
-  tileScheme?: 'xyz' | 'tms' | 'wmts';
+  tileScheme?: TileScheme;
+
+  /** WMTS layer selection (required when tileScheme is 'wmts') */
+  wmts?: WMTSOptions;
 
-  /** Maximum concurrent downloads (default: 6, max: 6) */
+  /** WMS GetMap parameters (required when tileScheme is 'wms') */
+  wms?: WMSOptions;
+
+  /** Maximum concurrent downloads per host (default: 6, max: 6, or 32 with `http2`) */
   concurrency?: number;
 
+  /** Source is served over HTTP/2 or HTTP/3, which multiplexes requests per connection (default: false) */
+  http2?: boolean;
+
   /** Rate limit in tiles per second */
   rateLimit?: number;
 
+  /** Bandwidth limit in bytes per second */
+  bandwidthLimit?: number;
+
+  /** Concurrency budget shared with other downloads (main thread only, see DownloadJobManager) */
+  budget?: ConcurrencyBudget;
+
+  /** Priority for budget slots, higher first; a function allows reprioritising while running (default: 0) */
+  priority?: number | (() => number);
+
   /** Maximum retry attempts (default: 5) */
   retries?: number;
 
   /** Base delay for exponential backoff in ms (default: 1000) */
   retryBaseDelay?: number;
 
+  /** Longest Retry-After delay to wait for in ms; tiles asked to wait longer fail instead (default: 60000) */
+  maxRetryAfter?: number;
+
+  /** Per-host circuit breaker thresholds; traffic shifts to other subdomains while a host's breaker is open */
+  circuitBreaker?: CircuitBreakerOptions;
+
   /** Existing tiles to skip (deduplication) */
   existingTiles?: TileCache;
 
-  /** GetCapabilities URL for CRS detection */
+  /**
+   * Refresh run: instead of skipping tiles in `existingTiles`, revalidate them with
+   * If-None-Match/If-Modified-Since. Unchanged tiles (304) are counted in
+   * `LiveProgress.unchanged` and not yielded, so only changed tiles are rewritten.
+   * Servers must expose ETag via Access-Control-Expose-Headers for cross-origin use.
+   */
+  refresh?: boolean;
+
+  /** Raster images or Mapbox Vector Tiles (MVT/PBF, possibly gzipped) (default: 'raster') */
+  tileType?: TileType;
+
+  /** Payload checks beyond format sniffing: decoding and known placeholder images */
+  validation?: TileValidationOptions;
+
+  /** Treat tiles in `existingTiles` that expired under this policy as missing, so they are re-fetched */
+  expiry?: ExpiryPolicy;
+
+  /** Resume point of an interrupted download (see `TileDownloadResult.cursor`); finished tiles are skipped */
+  resumeFrom?: DownloadCursor;
+
+  /** Minimum time between `progress` events in ms; state changes are always reported (default: 1000) */
+  progressInterval?: number;
+
+  /**
+   * Compare the size estimate with the available browser storage before downloading:
+   * 'refuse' throws a StorageQuotaError if the expected size does not fit, 'warn'
+   * only logs the breakdown (default: 'refuse')
+   */
+  storageQuota?: StorageQuotaPolicy;
+
+  /**
+   * Check the download against the usage policies of public tile servers (see
+   * `registerTileUsagePolicy`): 'enforce' throws a TileUsagePolicyError when it
+   * violates one, 'warn' only logs it, 'ignore' skips the check for servers you
+   * have permission to download from (default: 'enforce')
+   */
+  usagePolicy?: TileUsagePolicyMode;
+
+  /** GetCapabilities URL for CRS detection (and tile matrix sets for WMTS) */
   capabilitiesUrl?: string;
+
+  /** Parsed WMTS capabilities, used instead of fetching them (see `prefetchCapabilities`) */
+  wmtsCapabilities?: WMTSCapabilities;
+
+  /** Parsed WMS capabilities of `capabilitiesUrl`, used instead of fetching them (see `prefetchCapabilities`) */
+  wmsCapabilities?: WMSCapabilities;
+
+  /** Request headers for capabilities, sample and tile requests, e.g. { Authorization: 'Bearer ...' } */
+  headers?: Record<string, string>;
+
+  /** Fetch credentials mode, e.g. 'include' for cookie-authenticated sources */
+  credentials?: RequestCredentials;
+
+  /** Referrer URL sent with requests (browsers do not allow setting the Referer header directly) */
+  referrer?: string;
+
+  /**
+   * Called once when a request is rejected with 401; returns headers (e.g. a new
+   * bearer token) merged into all further requests. Functions cannot be passed to
+   * the worker, so token refresh is only available on the main thread.
+   */
+  refreshAuth?: () => Promise<Record<string, string>>;
+}
+
+/**
+ * Attribution and licence of a tile service, which offline maps must still show
+ */
+export interface TileServiceAttribution {
+  /** Attribution HTML, e.g. '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors' */
+  html: string;
+
+  /** Licence name, e.g. 'ODbL 1.0' */
+  license?: string;
+
+  /** Licence text URL */
+  licenseUrl?: string;
+
+  /** Data source or provider URL */
+  sourceUrl?: string;
+}
+
+/**
+ * Request options shared by capabilities, sample and tile requests
+ */
+export type RequestOptions = Pick<TileDownloadConfig, 'headers' | 'credentials' | 'referrer' | 'refreshAuth'>;
+
+/**
+ * WMTS layer options
+ *
+ * With REST encoding, `url` is a template using {TileMatrix}, {TileRow}, {TileCol},
+ * {Style} and {TileMatrixSet} (or empty to use the layer's ResourceURL from the
+ * capabilities). With KVP encoding, `url` is the service endpoint for GetTile requests.
+ */
+export interface WMTSOptions {
+  /** Layer identifier */
+  layer: string;
+
+  /** TileMatrixSet identifier (default: first set linked to the layer) */
+  tileMatrixSet?: string;
+
+  /** Style identifier (default: the layer's default style) */
+  style?: string;
+
+  /** Image format (default: first format offered by the layer) */
+  format?: string;
+
+  /** Request encoding (default: 'REST' if a template is available, otherwise 'KVP') */
+  requestEncoding?: 'REST' | 'KVP';
+
+  /** Values for additional dimension placeholders in REST templates, e.g. { Time: '2024' } */
+  dimensions?: Record<string, string>;
+}
+
+/**
+ * WMS GetMap options
+ *
+ * `url` is the WMS endpoint; the area is sliced into an XYZ tile grid of the
+ * target CRS and every tile is requested with its own GetMap BBOX, so tiles are
+ * stored and addressed by z/x/y like any other source.
+ */
+export interface WMSOptions {
+  /** Layer name(s) */
+  layers: string | string[];
+
+  /** Style name(s) (default: server default styles) */
+  styles?: string | string[];
+
+  /** Image format (default: 'image/png') */
+  format?: string;
+
+  /** WMS version (default: from capabilities if capabilitiesUrl is set, otherwise '1.3.0') */
+  version?: '1.1.1' | '1.3.0';
+
+  /** Request transparent images (default: false) */
+  transparent?: boolean;
+
+  /** Tile width/height in pixels (default: 256) */
+  tileSize?: number;
+
+  /** Additional GetMap parameters, e.g. { TIME: '2024-01-01' } */
+  params?: Record<string, string>;
+}
+
+/**
+ * HTTP cache validators of a tile response
+ */
+export interface TileValidators {
+  etag?: string;
+  lastModified?: string;
+  cacheControl?: string;
+}
+
+/**
+ * Stored tile metadata for deduplication and revalidation
+ */
+export interface TileCacheEntry extends TileValidators {
+  /** Time the tile was stored (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Resume point of a download: a per-zoom watermark in tile generation order
+ */
+export interface DownloadCursor {
+  /** Per zoom level: tiles before position `done` are finished, `ahead` lists finished positions after it */
+  byZoom: Record<number, { done: number; ahead: number[] }>;
+
+  /** Tiles that failed (without URLs, which may carry credentials) */
+  failed: Array<{ z: number; x: number; y: number }>;
 }
 
 /**
@@ -71,7 +345,7 @@ export interface TileCache {
   [serviceName: string]: {
     [z: string]: {
       [x: string]: {
-        [y: string]: Blob | true;
+        [y: string]: Blob | true | TileCacheEntry;
       };
     };
   };
@@ -87,6 +361,22 @@ export interface TileBlob {
   y: number;
   blob: Blob;
   size: number;
+
+  /** Validators from the response headers, for later refresh runs */
+  validators?: TileValidators;
+}
+
+/**
+ * Stored tile the server confirmed as current (304 Not Modified)
+ */
+export interface UnchangedTile {
+  serviceName: string;
+  z: number;
+  x: number;
+  y: number;
+
+  /** Validators of the 304 response, falling back to the stored ones */
+  validators: TileValidators;
 }
 
 /**
@@ -98,8 +388,55 @@ export interface TileCoordinate {
   x: number;
   y: number;
   url: string;
+
+  /** Validators of the stored tile, sent as conditional headers in refresh runs */
+  validators?: TileValidators;
+}
+
+/**
+ * Size range in bytes (low/high bound a ~95% confidence range)
+ */
+export interface SizeRange {
+  low: number;
+  expected: number;
+  high: number;
+}
+
+/**
+ * Download size estimate from sampled tiles
+ */
+export interface SizeEstimate extends SizeRange {
+  byZoom: Map<number, SizeRange & { tiles: number; samples: number; meanTileSize: number }>;
+}
+
+/**
+ * Events of a running download and their payloads
+ */
+export interface DownloadEventMap {
+  /** Tile downloaded; async listeners are awaited before the tile counts as finished */
+  tile: TileBlob;
+
+  /** Stored tile confirmed as current by a refresh; storage should renew its timestamp and validators */
+  unchanged: UnchangedTile;
+
+  /** Tile failed after all retries */
+  tileError: TileError;
+
+  /** Progress changed (throttled by `progressInterval`) */
+  progress: LiveProgress;
+
+  /** Download state changed */
+  stateChange: DownloadState;
+
+  /** All tiles were processed */
+  complete: DownloadStats;
 }
 
+/**
+ * Download event listener
+ */
+export type DownloadEventListener<K extends keyof DownloadEventMap> = (event: DownloadEventMap[K]) => void | Promise<void>;
+
 /**
  * Result of tile download operation
  */
@@ -107,15 +444,34 @@ export interface TileDownloadResult {
   /** Total number of tiles to download */
   totalTiles: number;
 
-  /** Estimated total size in bytes */
+  /** Estimated total size in bytes (expected value of `sizeEstimate`) */
   estimatedSize: number;
 
+  /** Size estimate with confidence range, per zoom level */
+  sizeEstimate: SizeEstimate;
+
+  /** Storage pre-flight check (null if skipped or the Storage API is unavailable) */
+  storage: StorageQuotaCheck | null;
+
   /** Number of tiles per zoom level */
   tilesByZoom: Map<number, number>;
 
-  /** Async iterable for streaming downloaded tiles */
+  /** Async iterable for streaming downloaded tiles; stopping the iteration early cancels the download */
   tiles: AsyncIterable<TileBlob>;
 
+  /**
+   * Run the download without iterating `tiles`, delivering tiles to `tile` listeners only
+   *
+   * @returns Final statistics; rejects if the download fails
+   */
+  start: () => Promise<DownloadStats>;
+
+  /** Subscribe to an event, returns a function that unsubscribes */
+  on: <K extends keyof DownloadEventMap>(type: K, listener: DownloadEventListener<K>) => () => void;
+
+  /** Unsubscribe from an event */
+  off: <K extends keyof DownloadEventMap>(type: K, listener: DownloadEventListener<K>) => void;
+
   /** Pause downloads */
   pause: () => void;
 
@@ -128,10 +484,93 @@ export interface TileDownloadResult {
   /** Current progress snapshot */
   progress: LiveProgress;
 
-  /** Final statistics (resolves when complete) */
+  /** Resume point snapshot; tiles count as finished once the consumer has taken them */
+  cursor: DownloadCursor;
+
+  /** Final statistics with all tile errors; resolves when the download completed, was cancelled or failed */
+  done: Promise<DownloadStats>;
+
+  /** @deprecated Same promise as `done` */
   stats: Promise<DownloadStats>;
 }
 
+/**
+ * Planned download of one zoom level
+ */
+export interface DownloadPlanZoom {
+  z: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+
+  /** Tiles in the download area */
+  tiles: number;
+
+  /** Tiles skipped as already stored (`existingTiles`) or finished in a previous run (`resumeFrom`) */
+  stored: number;
+
+  /** Tiles that would be requested */
+  toDownload: number;
+
+  /** Estimated size of the tiles to download */
+  size: SizeRange;
+
+  /** Sampled tile sizes the estimate is based on (0 when the size was borrowed from another zoom level) */
+  samples: number;
+}
+
+/**
+ * Download plan: what a download would involve, without downloading tiles
+ *
+ * Plain data, so it can be exported with {@link exportDownloadPlan}.
+ */
+export interface DownloadPlan {
+  serviceName: string;
+
+  /** Attribution and licence of the service (null if the config has none) */
+  attribution: TileServiceAttribution | null;
+
+  /** One tile URL of the download with credentials masked */
+  exampleUrl: string;
+
+  crs: string;
+  tileScheme: TileScheme;
+  order: TileOrder;
+  minZoom: number;
+  maxZoom: number;
+
+  /** Ranges and counts per zoom level */
+  zooms: DownloadPlanZoom[];
+
+  totalTiles: number;
+  stored: number;
+  toDownload: number;
+
+  /** Estimated size of the tiles to download */
+  size: SizeRange;
+
+  /** Hosts that would receive requests (tile servers and capabilities) */
+  hosts: string[];
+
+  /** Storage pre-flight check (null if the Storage API is unavailable or `storageQuota` is 'ignore') */
+  storage: StorageQuotaCheck | null;
+
+  /** Usage policies of the hosts, with violations when `usagePolicy` is 'warn' (empty if it is 'ignore') */
+  usagePolicies: TileUsageCheck[];
+
+  /** Time the plan was made (ISO 8601) */
+  createdAt: string;
+}
+
+/**
+ * Planning options
+ */
+export interface PlanOptions {
+  /** Fetch a few sample tiles per zoom level for the size estimate; otherwise a default tile size is assumed (default: false) */
+  sampleSizes?: boolean;
+}
+
 /**
  * Download state
  */
@@ -145,6 +584,49 @@ export enum DownloadState {
   FAILED = 'failed'
 }
 
+/**
+ * Circuit breaker thresholds, applied to each host separately
+ */
+export interface CircuitBreakerOptions {
+  /** Ratio of failed requests among the recent ones that opens the breaker (default: 0.5) */
+  failureThreshold?: number;
+
+  /** Requests to a host before its breaker can open (default: 10) */
+  minimumRequests?: number;
+
+  /** Number of recent requests the failure ratio is taken over (default: 20) */
+  windowSize?: number;
+
+  /** Time an open breaker rejects requests before one probe request is let through, doubled on each further trip in ms (default: 30000) */
+  openDuration?: number;
+
+  /** Trips without recovery after which a host counts as down; the download is aborted once all hosts are down (default: 3) */
+  maxTrips?: number;
+}
+
+/**
+ * Circuit breaker state
+ * - 'closed': requests pass
+ * - 'open': requests are rejected and routed to other hosts
+ * - 'half-open': one probe request decides whether the breaker closes or opens again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker state of a host
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  /** Failed share of the recent requests */
+  failureRatio: number;
+  /** Consecutive trips since the host last recovered */
+  trips: number;
+  /** Host failed `maxTrips` times in a row and gets no more requests */
+  down: boolean;
+  /** When an open breaker lets the next probe through (ms since epoch) */
+  retryAt: number | null;
+}
+
 /**
  * Live progress information
  */
@@ -152,14 +634,26 @@ export interface LiveProgress {
   state: DownloadState;
   downloaded: number;
   failed: number;
+  /** Tiles revalidated as not modified (304) in refresh runs */
+  unchanged: number;
   pending: number;
   retrying: number;
   totalTiles: number;
   downloadedBytes: number;
+  /** Estimated total size, refined with every downloaded tile */
   estimatedBytes: number;
+  /** Bounds of the ~95% confidence range of the total size */
+  estimatedBytesLow: number;
+  estimatedBytesHigh: number;
   percentComplete: number;
   currentSpeed: number;
   eta: number;
+  /** Effective concurrency after adapting to server pushback, summed over hosts */
+  concurrency: number;
+  /** Effective concurrency per host */
+  concurrencyByHost: Record<string, number>;
+  /** Circuit breaker state per host */
+  circuitBreakers: Record<string, CircuitBreakerStatus>;
 }
 
 /**
@@ -168,6 +662,7 @@ export interface LiveProgress {
 export interface DownloadStats {
   successful: number;
   failed: number;
+  unchanged: number;
   successRatio: number;
   actualSize: number;
   downloadTime: number;
@@ -199,6 +694,31 @@ export interface TileError {
   attempts: number;
   timestamp: number;
   retryable: boolean;
+  /** Delay requested by the server via Retry-After, in ms */
+  retryAfter?: number;
+}
+
+/**
+ * Failed tile without its URL, which may carry credentials (for persisting)
+ */
+export interface TileFailure extends Omit<TileError, 'tile'> {
+  z: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Selection of failed tiles to retry
+ */
+export interface TileFailureFilter {
+  /** Only failures of these types */
+  errorTypes?: TileErrorType[];
+
+  /** Only failures that may succeed on retry, e.g. timeouts and 5xx responses (default: false) */
+  retryableOnly?: boolean;
+
+  /** Skip failures with these HTTP statuses, e.g. [404] for tiles outside the coverage */
+  excludeStatus?: number[];
 }
 
 /**
@@ -211,6 +731,9 @@ export interface TileRange {
   minY: number;
   maxY: number;
   count: number;
+
+  /** Row spans covering a non-rectangular area (count is the sum of span widths) */
+  spans?: TileRowSpan[];
 }
 
 /**
@@ -220,6 +743,10 @@ export interface URLValidation {
   valid: boolean;
   placeholders: string[];
   missing: string[];
+  /** Placeholders that are neither built in nor supplied as variables */
+  unknown: string[];
+  /** Known placeholders without a value, e.g. {ext} without an extension */
+  unfilled: string[];
   warnings: string[];
 }
 
@@ -235,7 +762,7 @@ export interface CRSCapabilities {
 /**
  * WMS GetCapabilities structure
  */
-interface WMSCapabilities {
+export interface WMSCapabilities {
   version: string;
   supportedCRS: string[];
   layers: Array<{
@@ -249,7 +776,7 @@ interface WMSCapabilities {
 /**
  * WMTS GetCapabilities structure
  */
-interface WMTSCapabilities {
+export interface WMTSCapabilities {
   version: string;
   supportedCRS: string[];
   layers: Array<{
@@ -257,6 +784,8 @@ interface WMTSCapabilities {
     title: string;
     tileMatrixSets: string[];
     formats: string[];
+    styles: Array<{ identifier: string; isDefault: boolean }>;
+    resourceUrls: Array<{ format: string; resourceType: string; template: string }>;
   }>;
   tileMatrixSets: Array<{
     identifier: string;
@@ -292,80 +821,188 @@ const HTTP_ERROR_HANDLING: Record<number, { retryable: boolean; message: string
 
 const NON_RETRYABLE_HTTP_CODES = [400, 401, 403, 404, 410];
 
+/**
+ * HTTP error response, with the server's Retry-After delay if given
+ */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly retryAfter?: number
+  ) {
+    super(`HTTP ${status}`);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) into ms
+ */
+function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Whether a status tells us to slow down (rate limiting or server overload)
+ */
+function isPushbackStatus(status?: number): boolean {
+  return status === 429 || (status !== undefined && status >= 500 && status < 600);
+}
+
 // ============================================================================
 // GETCAPABILITIES CACHE
 // ============================================================================
 
 const capabilitiesCache = new Map<string, CRSCapabilities>();
 
+const wmtsCapabilitiesCache = new Map<string, Promise<WMTSCapabilities>>();
+
+const wmsCapabilitiesCache = new Map<string, Promise<WMSCapabilities>>();
+
 // ============================================================================
 // URL TEMPLATE PROCESSING
 // ============================================================================
 
 /**
- * Parsed URL template structure
+ * Builds the request URL for a tile (y already converted to the service's scheme)
  */
-interface ParsedTemplate {
-  template: string;
-  hasX: boolean;
-  hasY: boolean;
-  hasZ: boolean;
-  hasSubdomain: boolean;
-}
+type TileURLBuilder = (x: number, y: number, z: number, subdomain?: string) => string;
 
 /**
- * Parse URL template and identify placeholders
+ * Checks a tile response body, returning the blob to store
  */
-function parseURLTemplate(url: string): ParsedTemplate {
-  return {
-    template: url,
-    hasX: url.includes('{x}'),
-    hasY: url.includes('{y}'),
-    hasZ: url.includes('{z}'),
-    hasSubdomain: url.includes('{s}')
-  };
+type PayloadValidator = (blob: Blob) => Promise<Blob>;
+
+/**
+ * Resolved WMTS request parameters
+ */
+interface WMTSRequest {
+  url: string;
+  encoding: 'REST' | 'KVP';
+  layer: string;
+  style: string;
+  format: string;
+  tileMatrixSet: string;
+  matrixIds: string[];
+  dimensions: Record<string, string>;
+  /** Custom URL variables from the download config */
+  variables: Record<string, string>;
 }
 
 /**
- * Build tile URL from template and coordinates
+ * Build WMTS GetTile URL (REST template or KVP request)
  */
-function buildTileURL(
-  template: string,
+function buildWMTSTileURL(
+  request: WMTSRequest,
   x: number,
   y: number,
   z: number,
   subdomain?: string
 ): string {
-  let url = template
-    .replace('{x}', x.toString())
-    .replace('{y}', y.toString())
-    .replace('{z}', z.toString());
+  const tileMatrix = request.matrixIds[z];
+  if (tileMatrix === undefined) {
+    throw new Error(`No tile matrix for zoom level ${z} in ${request.tileMatrixSet}`);
+  }
+
+  if (request.encoding === 'KVP') {
+    const url = new URL(subdomain ? request.url.replace('{s}', subdomain) : request.url);
+    url.searchParams.set('SERVICE', 'WMTS');
+    url.searchParams.set('REQUEST', 'GetTile');
+    url.searchParams.set('VERSION', '1.0.0');
+    url.searchParams.set('LAYER', request.layer);
+    url.searchParams.set('STYLE', request.style);
+    url.searchParams.set('FORMAT', request.format);
+    url.searchParams.set('TILEMATRIXSET', request.tileMatrixSet);
+    url.searchParams.set('TILEMATRIX', tileMatrix);
+    url.searchParams.set('TILEROW', y.toString());
+    url.searchParams.set('TILECOL', x.toString());
+    return url.toString();
+  }
+
+  return expandURLTemplate(request.url, { x, y, z }, {
+    variables: {
+      ...request.variables,
+      ...request.dimensions,
+      TileMatrix: tileMatrix,
+      TileRow: y.toString(),
+      TileCol: x.toString(),
+      Style: request.style,
+      TileMatrixSet: request.tileMatrixSet,
+      Layer: request.layer
+    }
+  }, subdomain);
+}
+
+/**
+ * Resolved WMS GetMap parameters
+ */
+interface WMSRequest {
+  url: string;
+  version: string;
+  layers: string;
+  styles: string;
+  format: string;
+  transparent: boolean;
+  crs: string;
+  tileGrid: TileGrid;
+  /** WMS 1.3.0 uses the CRS axis order, e.g. lat/lon for EPSG:4326 */
+  swapAxes: boolean;
+  params: Record<string, string>;
+}
 
-  if (subdomain) {
-    url = url.replace('{s}', subdomain);
+/**
+ * Build WMS GetMap URL for the extent of a tile
+ */
+function buildWMSTileURL(
+  request: WMSRequest,
+  x: number,
+  y: number,
+  z: number,
+  subdomain?: string
+): string {
+  const [minX, minY, maxX, maxY] = request.tileGrid.getTileCoordExtent([z, x, y]) as [number, number, number, number];
+  const bbox = request.swapAxes ? [minY, minX, maxY, maxX] : [minX, minY, maxX, maxY];
+  const [width, height] = toSize(request.tileGrid.getTileSize(z)) as [number, number];
+
+  const url = new URL(subdomain ? request.url.replace('{s}', subdomain) : request.url);
+  url.searchParams.set('SERVICE', 'WMS');
+  url.searchParams.set('REQUEST', 'GetMap');
+  url.searchParams.set('VERSION', request.version);
+  url.searchParams.set('LAYERS', request.layers);
+  url.searchParams.set('STYLES', request.styles);
+  url.searchParams.set('FORMAT', request.format);
+  url.searchParams.set('TRANSPARENT', request.transparent ? 'TRUE' : 'FALSE');
+  url.searchParams.set(request.version.startsWith('1.3') ? 'CRS' : 'SRS', request.crs);
+  url.searchParams.set('BBOX', bbox.join(','));
+  url.searchParams.set('WIDTH', width.toString());
+  url.searchParams.set('HEIGHT', height.toString());
+
+  for (const [name, value] of Object.entries(request.params)) {
+    url.searchParams.set(name, value);
   }
 
-  return url;
+  return url.toString();
 }
 
 /**
  * Validate tile URL template
  */
-export function validateTileURL(url: string, hasSubdomains: boolean): URLValidation {
+export function validateTileURL(
+  url: string,
+  hasSubdomains: boolean,
+  templateOptions: TemplateOptions = {}
+): URLValidation {
   const parsed = parseURLTemplate(url);
-  const placeholders: string[] = [];
-  const missing: string[] = [];
+  const { placeholders, missing, unknown, unfilled } = checkURLTemplate(url, templateOptions);
   const warnings: string[] = [];
 
-  if (parsed.hasX) placeholders.push('x');
-  if (parsed.hasY) placeholders.push('y');
-  if (parsed.hasZ) placeholders.push('z');
-  if (parsed.hasSubdomain) placeholders.push('s');
-
-  if (!parsed.hasX) missing.push('x');
-  if (!parsed.hasY) missing.push('y');
-  if (!parsed.hasZ) missing.push('z');
-
   if (hasSubdomains && !parsed.hasSubdomain) {
     warnings.push('Subdomains provided but {s} placeholder not found in URL');
   }
@@ -375,15 +1012,17 @@ export function validateTileURL(url: string, hasSubdomains: boolean): URLValidat
   }
 
   try {
-    new URL(url.replace('{s}', 'a').replace('{x}', '0').replace('{y}', '0').replace('{z}', '0'));
+    new URL(expandURLTemplate(url, { x: 0, y: 0, z: 0 }, templateOptions, 'a'));
   } catch {
     warnings.push('URL may not be valid - check protocol and domain');
   }
 
   return {
-    valid: missing.length === 0,
+    valid: missing.length === 0 && unknown.length === 0 && unfilled.length === 0,
     placeholders,
     missing,
+    unknown,
+    unfilled,
     warnings
   };
 }
@@ -408,43 +1047,173 @@ class SubdomainRotator {
   hasSubdomains(): boolean {
     return this.subdomains.length > 0;
   }
+
+  get size(): number {
+    return this.subdomains.length;
+  }
 }
 
 // ============================================================================
-// TILE GRID CALCULATIONS
+// REQUEST AUTHENTICATION
 // ============================================================================
 
 /**
- * Create tile grid for given CRS and scheme
+ * Applies headers, credentials and referrer to every request of a download and
+ * refreshes authentication once per rejected token generation
  */
-function createTileGrid(crs: string, tileScheme: 'xyz' | 'tms' | 'wmts'): TileGrid {
-  const projection = getProjection(crs);
+class RequestAuth {
+  private headers: Record<string, string>;
+  private generation: number = 0;
+  private refreshing: Promise<void> | null = null;
 
-  if (!projection) {
-    throw new Error(`Unknown projection: ${crs}`);
+  constructor(
+    private options: RequestOptions = {},
+    private secrets: string[] = []
+  ) {
+    this.headers = { ...options.headers };
   }
 
-  // For Web Mercator and similar, use standard XYZ grid
-  if (tileScheme === 'xyz' || tileScheme === 'tms') {
-    return createXYZ({
-      extent: projection.getExtent(),
-      tileSize: 256
-    });
+  /**
+   * Fetch with the configured request options, retrying once after a token refresh on 401
+   *
+   * @param url - Request URL
+   * @param signal - Abort signal
+   * @param headers - Per-request headers, e.g. conditional request headers
+   */
+  async fetch(url: string, signal?: AbortSignal, headers: Record<string, string> = {}): Promise<Response> {
+    const generation = this.generation;
+    const response = await fetch(url, this.getRequestInit(signal, headers));
+
+    if (response.status !== 401 || !this.options.refreshAuth) {
+      return response;
+    }
+
+    await this.refresh(generation);
+    return fetch(url, this.getRequestInit(signal, headers));
   }
 
-  // WMTS uses same grid as XYZ
-  return createXYZ({
-    extent: projection.getExtent(),
-    tileSize: 256
-  });
+  /**
+   * Mask credentials in a URL for logging
+   */
+  redact(url: string): string {
+    return redactURL(url, this.secrets);
+  }
+
+  private getRequestInit(signal?: AbortSignal, headers: Record<string, string> = {}): RequestInit {
+    return {
+      signal,
+      headers: { ...this.headers, ...headers },
+      credentials: this.options.credentials,
+      referrer: this.options.referrer
+    };
+  }
+
+  private async refresh(generation: number): Promise<void> {
+    // Another request already refreshed the token this one was sent with
+    if (generation !== this.generation) return;
+
+    if (!this.refreshing) {
+      this.refreshing = this.options.refreshAuth!()
+        .then(headers => {
+          this.headers = { ...this.headers, ...headers };
+          this.generation++;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+
+    await this.refreshing;
+  }
 }
 
 /**
- * Convert Y coordinate for TMS (inverted Y-axis)
+ * Create request authentication for a download config
  */
-function convertYCoordinate(y: number, z: number, tileScheme: 'xyz' | 'tms' | 'wmts'): number {
-  if (tileScheme === 'tms') {
-    // TMS has origin at bottom-left, need to invert
+function createRequestAuth(config: TileDownloadConfig): RequestAuth {
+  return new RequestAuth(config, getSecretVariables(config.urlVariables));
+}
+
+// ============================================================================
+// TILE GRID CALCULATIONS
+// ============================================================================
+
+/**
+ * Create XYZ/TMS tile grid for given CRS (also used to slice WMS layers)
+ */
+function createTileGrid(crs: string, tileSize: number = 256): TileGrid {
+  const projection = getProjection(crs);
+
+  if (!projection) {
+    throw new Error(`Unknown projection: ${crs}`);
+  }
+
+  // For Web Mercator and similar, use standard XYZ grid
+  return createXYZ({
+    extent: projection.getExtent(),
+    tileSize
+  });
+}
+
+/**
+ * Create tile grid from a WMTS TileMatrixSet.
+ *
+ * Resolutions are derived from the scale denominators (0.28 mm standardized
+ * pixel size), so national grids with arbitrary resolution ratios and
+ * per-matrix origins are supported.
+ */
+function createWMTSTileGrid(
+  matrixSet: WMTSCapabilities['tileMatrixSets'][number],
+  crs: string
+): WMTSTileGrid {
+  const projection = getProjection(crs);
+
+  if (!projection) {
+    throw new Error(`Unknown projection: ${crs} (register it with ol/proj/proj4 before downloading)`);
+  }
+
+  const metersPerUnit = projection.getMetersPerUnit() ?? 1;
+  // TopLeftCorner follows the CRS axis order, e.g. lat/lon for EPSG:4326
+  const swapAxes = projection.getAxisOrientation().startsWith('ne');
+
+  const matrices = matrixSet.tileMatrices;
+
+  return new WMTSTileGrid({
+    origins: matrices.map(m => swapAxes
+      ? [m.topLeftCorner[1], m.topLeftCorner[0]]
+      : [m.topLeftCorner[0], m.topLeftCorner[1]]),
+    resolutions: matrices.map(m => (m.scaleDenominator * 0.00028) / metersPerUnit),
+    matrixIds: matrices.map(m => m.identifier),
+    sizes: matrices.map(m => [m.matrixWidth, m.matrixHeight]),
+    tileSizes: matrices.map(m => [m.tileWidth, m.tileHeight])
+  });
+}
+
+/**
+ * Restrict a tile range to the grid's valid tiles at that zoom level
+ */
+function clampToFullTileRange(
+  range: { minX: number; maxX: number; minY: number; maxY: number },
+  z: number,
+  tileGrid: TileGrid
+): { minX: number; maxX: number; minY: number; maxY: number } {
+  const full = tileGrid.getFullTileRange(z);
+  if (!full) return range;
+
+  return {
+    minX: Math.max(range.minX, full.minX),
+    maxX: Math.min(range.maxX, full.maxX),
+    minY: Math.max(range.minY, full.minY),
+    maxY: Math.min(range.maxY, full.maxY)
+  };
+}
+
+/**
+ * Convert Y coordinate for TMS (inverted Y-axis)
+ */
+function convertYCoordinate(y: number, z: number, tileScheme: TileScheme): number {
+  if (tileScheme === 'tms') {
+    // TMS has origin at bottom-left, need to invert
     const numTiles = Math.pow(2, z);
     return numTiles - 1 - y;
   }
@@ -460,7 +1229,7 @@ function bboxToTileRanges(
   maxZoom: number,
   tileGrid: TileGrid,
   crs: string,
-  tileScheme: 'xyz' | 'tms' | 'wmts'
+  tileScheme: TileScheme
 ): TileRange[] {
   // Transform bbox from EPSG:4326 to target CRS
   const transformedExtent = transformExtent(bbox, 'EPSG:4326', crs);
@@ -468,14 +1237,14 @@ function bboxToTileRanges(
   const ranges: TileRange[] = [];
 
   for (let z = minZoom; z <= maxZoom; z++) {
-    const tileRange = tileGrid.getTileRangeForExtentAndZ(transformedExtent, z);
+    const tileRange = clampToFullTileRange(tileGrid.getTileRangeForExtentAndZ(transformedExtent, z), z, tileGrid);
 
     const minX = tileRange.minX;
     const maxX = tileRange.maxX;
     const minY = tileRange.minY;
     const maxY = tileRange.maxY;
 
-    const count = (maxX - minX + 1) * (maxY - minY + 1);
+    const count = Math.max(maxX - minX + 1, 0) * Math.max(maxY - minY + 1, 0);
 
     ranges.push({
       z,
@@ -491,34 +1260,315 @@ function bboxToTileRanges(
 }
 
 /**
- * Generate all tile coordinates from ranges
+ * Calculate the tile range covering projected polygons at one zoom level
  */
-function generateTileCoordinates(
-  range: TileRange,
-  serviceName: string,
-  urlTemplate: string,
-  subdomainRotator: SubdomainRotator,
-  tileScheme: 'xyz' | 'tms' | 'wmts'
-): TileCoordinate[] {
-  const tiles: TileCoordinate[] = [];
+function polygonsToTileRange(polygons: ProjectedPolygon[], z: number, tileGrid: TileGrid): TileRange {
+  const extent = getPolygonsExtent(polygons);
+  const { minX, maxX, minY, maxY } = clampToFullTileRange(tileGrid.getTileRangeForExtentAndZ(extent, z), z, tileGrid);
+  const spans = polygonRowSpans(polygons, tileGrid, z, { minX, maxX, minY, maxY });
+  const count = spans.reduce((sum, span) => sum + span.maxX - span.minX + 1, 0);
+
+  return { z, minX, maxX, minY, maxY, count, spans };
+}
+
+/**
+ * Calculate tile ranges for a Polygon/MultiPolygon area, keeping only
+ * tiles whose extent intersects the geometry
+ */
+function areaToTileRanges(
+  area: AreaGeometry,
+  minZoom: number,
+  maxZoom: number,
+  tileGrid: TileGrid,
+  crs: string
+): TileRange[] {
+  const polygons = projectAreaGeometry(area, crs);
+
+  const ranges: TileRange[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    ranges.push(polygonsToTileRange(polygons, z, tileGrid));
+  }
+
+  return ranges;
+}
+
+/**
+ * Calculate tile ranges for a corridor along a route, keeping only tiles
+ * within the (optionally per-zoom) buffer distance of the line
+ */
+function corridorToTileRanges(
+  corridor: CorridorConfig,
+  minZoom: number,
+  maxZoom: number,
+  tileGrid: TileGrid,
+  crs: string
+): TileRange[] {
+  const lines = projectCorridorRoute(corridor, crs);
+  const polygonsByBuffer = new Map<number, ProjectedPolygon[]>();
+
+  const ranges: TileRange[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const buffer = getCorridorBuffer(corridor, z);
+    if (!(buffer > 0)) {
+      throw new Error(`Invalid corridor buffer for zoom ${z}: ${buffer}`);
+    }
+
+    let polygons = polygonsByBuffer.get(buffer);
+    if (!polygons) {
+      polygons = bufferRouteLines(lines, crs, buffer);
+      polygonsByBuffer.set(buffer, polygons);
+    }
+
+    ranges.push(polygonsToTileRange(polygons, z, tileGrid));
+  }
+
+  return ranges;
+}
+
+/**
+ * Calculate tile ranges for the configured download area
+ */
+function calculateTileRanges(
+  config: TileDownloadConfig,
+  tileGrid: TileGrid,
+  crs: string,
+  tileScheme: TileScheme
+): TileRange[] {
+  if (config.tiles) {
+    return tileListToTileRanges(config.tiles, config.minZoom, config.maxZoom, tileScheme);
+  }
+
+  if (config.corridor) {
+    return corridorToTileRanges(config.corridor, config.minZoom, config.maxZoom, tileGrid, crs);
+  }
+
+  if (config.area) {
+    return areaToTileRanges(config.area, config.minZoom, config.maxZoom, tileGrid, crs);
+  }
+
+  if (config.bbox) {
+    return bboxToTileRanges(config.bbox, config.minZoom, config.maxZoom, tileGrid, crs, tileScheme);
+  }
+
+  throw new Error('No download area: provide bbox, area, corridor or tiles');
+}
+
+/**
+ * Tile ranges for a list of tiles: one single-tile row span per tile
+ */
+function tileListToTileRanges(
+  tiles: Array<{ z: number; x: number; y: number }>,
+  minZoom: number,
+  maxZoom: number,
+  tileScheme: TileScheme
+): TileRange[] {
+  const spansByZoom = new Map<number, Map<string, TileRowSpan>>();
+
+  for (const tile of tiles) {
+    if (tile.z < minZoom || tile.z > maxZoom) continue;
+
+    // Ranges are in grid coordinates; the conversion is its own inverse
+    const y = convertYCoordinate(tile.y, tile.z, tileScheme);
+    const spans = spansByZoom.get(tile.z) ?? new Map<string, TileRowSpan>();
+    spans.set(`${tile.x}:${y}`, { y, minX: tile.x, maxX: tile.x });
+    spansByZoom.set(tile.z, spans);
+  }
+
+  return Array.from(spansByZoom)
+    .sort(([a], [b]) => a - b)
+    .map(([z, spans]) => {
+      const list = Array.from(spans.values()).sort((a, b) => a.y - b.y || a.minX - b.minX);
+      const range: TileRange = { z, minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity, count: list.length, spans: list };
+      for (const span of list) {
+        range.minX = Math.min(range.minX, span.minX);
+        range.maxX = Math.max(range.maxX, span.maxX);
+        range.minY = Math.min(range.minY, span.y);
+        range.maxY = Math.max(range.maxY, span.y);
+      }
+      return range;
+    });
+}
+
+/**
+ * Tile of a range in tile grid coordinates (TMS rows not yet converted)
+ */
+interface GridCell {
+  z: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Membership test for a tile range (row spans are indexed by row)
+ */
+function createRangeTest(range: TileRange): (x: number, y: number) => boolean {
+  if (!range.spans) {
+    return (x, y) => x >= range.minX && x <= range.maxX && y >= range.minY && y <= range.maxY;
+  }
+
+  const spansByRow = new Map<number, TileRowSpan[]>();
+  for (const span of range.spans) {
+    const row = spansByRow.get(span.y) ?? [];
+    row.push(span);
+    spansByRow.set(span.y, row);
+  }
+
+  return (x, y) => spansByRow.get(y)?.some(span => x >= span.minX && x <= span.maxX) ?? false;
+}
+
+/**
+ * Walk a tile range row by row
+ */
+function* walkRows(range: TileRange): Generator<GridCell> {
+  if (range.spans) {
+    for (const span of range.spans) {
+      for (let x = span.minX; x <= span.maxX; x++) {
+        yield { z: range.z, x, y: span.y };
+      }
+    }
+    return;
+  }
 
   for (let x = range.minX; x <= range.maxX; x++) {
     for (let y = range.minY; y <= range.maxY; y++) {
-      const actualY = convertYCoordinate(y, range.z, tileScheme);
-      const subdomain = subdomainRotator.hasSubdomains() ? subdomainRotator.next() : undefined;
-      const url = buildTileURL(urlTemplate, x, actualY, range.z, subdomain);
-
-      tiles.push({
-        serviceName,
-        z: range.z,
-        x,
-        y: actualY,
-        url
-      });
+      yield { z: range.z, x, y };
+    }
+  }
+}
+
+// ============================================================================
+// TILE ORDERING
+// ============================================================================
+
+/**
+ * Walk a tile range in quadtree (Z-order) order, skipping quadrants outside the range
+ */
+function* walkQuadtree(range: TileRange, contains: (x: number, y: number) => boolean): Generator<GridCell> {
+  let rootSize = 1;
+  while (rootSize <= Math.max(range.maxX, range.maxY)) rootSize *= 2;
+
+  function* visit(x0: number, y0: number, size: number): Generator<GridCell> {
+    if (x0 > range.maxX || y0 > range.maxY || x0 + size - 1 < range.minX || y0 + size - 1 < range.minY) return;
+
+    if (size === 1) {
+      if (contains(x0, y0)) yield { z: range.z, x: x0, y: y0 };
+      return;
+    }
+
+    const half = size / 2;
+    yield* visit(x0, y0, half);
+    yield* visit(x0, y0 + half, half);
+    yield* visit(x0 + half, y0, half);
+    yield* visit(x0 + half, y0 + half, half);
+  }
+
+  yield* visit(0, 0, rootSize);
+}
+
+/**
+ * Walk the bounds of a tile range in rings around a centre tile
+ *
+ * Each ring side is clipped to the bounds, so a centre near an edge costs no
+ * more than the tiles walked.
+ */
+function* walkSpiral(
+  bounds: TileRange,
+  contains: (x: number, y: number) => boolean,
+  centerX: number,
+  centerY: number
+): Generator<GridCell> {
+  const { z, minX, maxX, minY, maxY } = bounds;
+  const maxRing = Math.max(centerX - minX, maxX - centerX, centerY - minY, maxY - centerY);
+
+  if (centerX >= minX && centerX <= maxX && centerY >= minY && centerY <= maxY && contains(centerX, centerY)) {
+    yield { z, x: centerX, y: centerY };
+  }
+
+  for (let ring = 1; ring <= maxRing; ring++) {
+    const top = centerY - ring;
+    const bottom = centerY + ring;
+    const left = centerX - ring;
+    const right = centerX + ring;
+
+    // Top row left to right, right column down, bottom row right to left, left column up
+    if (top >= minY) {
+      for (let x = Math.max(left, minX); x <= Math.min(right, maxX); x++) {
+        if (contains(x, top)) yield { z, x, y: top };
+      }
+    }
+    if (right <= maxX) {
+      for (let y = Math.max(top + 1, minY); y <= Math.min(bottom - 1, maxY); y++) {
+        if (contains(right, y)) yield { z, x: right, y };
+      }
+    }
+    if (bottom <= maxY) {
+      for (let x = Math.min(right, maxX); x >= Math.max(left, minX); x--) {
+        if (contains(x, bottom)) yield { z, x, y: bottom };
+      }
+    }
+    if (left >= minX) {
+      for (let y = Math.min(bottom - 1, maxY); y >= Math.max(top + 1, minY); y--) {
+        if (contains(left, y)) yield { z, x: left, y };
+      }
+    }
+  }
+}
+
+/**
+ * Centre tile of a range
+ */
+function getRangeCenter(range: TileRange): [number, number] {
+  return [Math.floor((range.minX + range.maxX) / 2), Math.floor((range.minY + range.maxY) / 2)];
+}
+
+/**
+ * Walk all tiles of the download area lazily in the configured order
+ *
+ * @param ranges - Tile ranges of the download area (ascending zoom)
+ * @param order - Download order
+ * @param viewportRanges - Tile ranges of the viewport (required for 'viewport')
+ */
+function* walkTiles(ranges: TileRange[], order: TileOrder, viewportRanges?: TileRange[]): Generator<GridCell> {
+  if (order === 'viewport') {
+    if (!viewportRanges) {
+      throw new Error("Tile order 'viewport' requires a viewport");
+    }
+
+    const viewportByZoom = new Map(viewportRanges.map(range => [range.z, range]));
+    const inViewport = (z: number, x: number, y: number) => {
+      const viewport = viewportByZoom.get(z);
+      return viewport !== undefined && x >= viewport.minX && x <= viewport.maxX && y >= viewport.minY && y <= viewport.maxY;
+    };
+
+    // Tiles in the viewport first (low zoom first), then the rest outward from the viewport centre
+    for (const range of ranges) {
+      const viewport = viewportByZoom.get(range.z);
+      if (!viewport) continue;
+      const contains = createRangeTest(range);
+      yield* walkSpiral(viewport, contains, ...getRangeCenter(viewport));
+    }
+
+    for (const range of ranges) {
+      const viewport = viewportByZoom.get(range.z);
+      const contains = createRangeTest(range);
+      yield* walkSpiral(
+        range,
+        (x, y) => contains(x, y) && !inViewport(range.z, x, y),
+        ...getRangeCenter(viewport ?? range)
+      );
     }
+    return;
   }
 
-  return tiles;
+  for (const range of ranges) {
+    if (order === 'row') {
+      yield* walkRows(range);
+    } else if (order === 'zoom') {
+      yield* walkQuadtree(range, createRangeTest(range));
+    } else {
+      yield* walkSpiral(range, createRangeTest(range), ...getRangeCenter(range));
+    }
+  }
 }
 
 // ============================================================================
@@ -526,19 +1576,35 @@ function generateTileCoordinates(
 // ============================================================================
 
 /**
- * Check if tile exists in cache
+ * Check if tile exists in cache (expired tiles count as missing)
  */
-function checkTileExists(tile: TileCoordinate, cache?: TileCache): boolean {
-  if (!cache) return false;
-  return cache?.[tile.serviceName]?.[tile.z]?.[tile.x]?.[tile.y] !== undefined;
+function checkTileExists(
+  tile: Pick<TileCoordinate, 'serviceName' | 'z' | 'x' | 'y'>,
+  cache?: TileCache,
+  expiry?: ExpiryPolicy
+): boolean {
+  const entry = cache?.[tile.serviceName]?.[tile.z]?.[tile.x]?.[tile.y];
+  if (entry === undefined) return false;
+
+  // Entries without a timestamp never expire
+  if (!expiry || entry === true || entry instanceof Blob) return true;
+  return !isTileExpired(entry, expiry);
 }
 
 /**
- * Filter out existing tiles
+ * Stored validators of a tile for conditional requests
+ *
+ * Tiles stored without ETag or Last-Modified are downloaded unconditionally.
  */
-function filterExistingTiles(tiles: TileCoordinate[], cache?: TileCache): TileCoordinate[] {
-  if (!cache) return tiles;
-  return tiles.filter(tile => !checkTileExists(tile, cache));
+function getStoredValidators(
+  tile: Pick<TileCoordinate, 'serviceName' | 'z' | 'x' | 'y'>,
+  cache?: TileCache
+): TileValidators | undefined {
+  const entry = cache?.[tile.serviceName]?.[tile.z]?.[tile.x]?.[tile.y];
+  if (!entry || entry === true || entry instanceof Blob) return undefined;
+  if (!entry.etag && !entry.lastModified) return undefined;
+
+  return { etag: entry.etag, lastModified: entry.lastModified, cacheControl: entry.cacheControl };
 }
 
 // ============================================================================
@@ -546,20 +1612,75 @@ function filterExistingTiles(tiles: TileCoordinate[], cache?: TileCache): TileCo
 // ============================================================================
 
 /**
- * Select random sample tiles from range
+ * Samples per round; rounds continue until the estimate is precise enough
  */
-function selectSampleTiles(range: TileRange, count: number = 3): Array<{ x: number; y: number }> {
-  const samples: Array<{ x: number; y: number }> = [];
-  const availableX = range.maxX - range.minX + 1;
-  const availableY = range.maxY - range.minY + 1;
+const SAMPLE_ROUND_SIZE = 4;
+
+const MAX_SAMPLES_PER_ZOOM = 16;
+
+/**
+ * Target standard error of the mean tile size, relative to the mean
+ */
+const TARGET_RELATIVE_ERROR = 0.1;
+
+/**
+ * Tile size assumed when no tile could be sampled
+ */
+const FALLBACK_TILE_SIZE = 15 * 1024;
+
+/**
+ * z-score of the ~95% confidence range
+ */
+const CONFIDENCE_Z = 1.96;
+
+/**
+ * Select stratified random sample tiles from a range
+ *
+ * The range is divided into a grid with one stratum per sample, so dense and
+ * sparse parts of a mixed area are both represented.
+ *
+ * @param range - Tile range
+ * @param count - Number of samples
+ * @param taken - Keys of tiles sampled before (updated)
+ */
+function selectSampleTiles(range: TileRange, count: number, taken: Set<string>): Array<{ x: number; y: number }> {
+  const contains = createRangeTest(range);
+  const width = range.maxX - range.minX + 1;
+  const height = range.maxY - range.minY + 1;
+  const grid = Math.ceil(Math.sqrt(count));
+
+  // Visit strata in random order
+  const strata = Array.from({ length: grid * grid }, (_, i) => i);
+  for (let i = strata.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [strata[i], strata[j]] = [strata[j] as number, strata[i] as number];
+  }
 
-  // If range is smaller than sample count, sample all tiles
-  const sampleCount = Math.min(count, availableX * availableY);
+  const samples: Array<{ x: number; y: number }> = [];
 
-  for (let i = 0; i < sampleCount; i++) {
-    const x = range.minX + Math.floor(Math.random() * availableX);
-    const y = range.minY + Math.floor(Math.random() * availableY);
-    samples.push({ x, y });
+  for (const stratum of strata) {
+    if (samples.length >= count) break;
+
+    const column = stratum % grid;
+    const row = Math.floor(stratum / grid);
+    const minX = range.minX + Math.floor(column * width / grid);
+    const maxX = range.minX + Math.floor((column + 1) * width / grid) - 1;
+    const minY = range.minY + Math.floor(row * height / grid);
+    const maxY = range.minY + Math.floor((row + 1) * height / grid) - 1;
+    if (maxX < minX || maxY < minY) continue;
+
+    // Areas and corridors leave strata partly empty: retry a few positions
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const x = minX + Math.floor(Math.random() * (maxX - minX + 1));
+      const y = minY + Math.floor(Math.random() * (maxY - minY + 1));
+      const key = `${x}:${y}`;
+
+      if (contains(x, y) && !taken.has(key)) {
+        taken.add(key);
+        samples.push({ x, y });
+        break;
+      }
+    }
   }
 
   return samples;
@@ -568,15 +1689,19 @@ function selectSampleTiles(range: TileRange, count: number = 3): Array<{ x: numb
 /**
  * Download single sample tile
  */
-async function downloadSampleTile(url: string, timeout: number = 5000): Promise<{ blob: Blob; size: number }> {
+async function downloadSampleTile(
+  url: string,
+  auth: RequestAuth,
+  timeout: number = 5000
+): Promise<{ blob: Blob; size: number }> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
 
   try {
-    const response = await fetch(url, { signal: controller.signal });
+    const response = await auth.fetch(url, controller.signal);
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
+      throw new HttpError(response.status);
     }
 
     const blob = await response.blob();
@@ -588,64 +1713,153 @@ async function downloadSampleTile(url: string, timeout: number = 5000): Promise<
 
 /**
  * Sample tile sizes for all zoom levels
+ *
+ * Sampling runs in rounds of stratified samples until the standard error of
+ * the mean is within the target or the per-zoom limit is reached. Missing
+ * tiles (404) count as empty.
+ *
+ * @returns Sampled sizes per zoom level
  */
 async function sampleTileSizes(
-  urlTemplate: string,
+  buildURL: TileURLBuilder,
   ranges: TileRange[],
   subdomainRotator: SubdomainRotator,
-  tileScheme: 'xyz' | 'tms' | 'wmts'
-): Promise<Map<number, number>> {
-  const sizeByZoom = new Map<number, number>();
+  tileScheme: TileScheme,
+  auth: RequestAuth
+): Promise<Map<number, number[]>> {
+  const samplesByZoom = new Map<number, number[]>();
 
   for (const range of ranges) {
-    const samples = selectSampleTiles(range, 3);
     const sizes: number[] = [];
+    const taken = new Set<string>();
+    const maxSamples = Math.min(MAX_SAMPLES_PER_ZOOM, range.count);
+
+    while (sizes.length < maxSamples) {
+      const samples = selectSampleTiles(range, Math.min(SAMPLE_ROUND_SIZE, maxSamples - sizes.length), taken);
+      if (samples.length === 0) break;
+
+      const results = await Promise.all(samples.map(async sample => {
+        try {
+          const actualY = convertYCoordinate(sample.y, range.z, tileScheme);
+          const subdomain = subdomainRotator.hasSubdomains() ? subdomainRotator.next() : undefined;
+          const { size } = await downloadSampleTile(buildURL(sample.x, actualY, range.z, subdomain), auth);
+          return size;
+        } catch (error) {
+          if (error instanceof HttpError && error.status === 404) return 0;
+          console.warn(`Failed to sample tile at z=${range.z}:`, error instanceof Error ? error.message : error);
+          return null;
+        }
+      }));
 
-    for (const sample of samples) {
-      try {
-        const actualY = convertYCoordinate(sample.y, range.z, tileScheme);
-        const subdomain = subdomainRotator.hasSubdomains() ? subdomainRotator.next() : undefined;
-        const url = buildTileURL(urlTemplate, sample.x, actualY, range.z, subdomain);
-
-        const { size } = await downloadSampleTile(url);
-        sizes.push(size);
-      } catch (error) {
-        console.warn(`Failed to sample tile at z=${range.z}:`, error);
+      const before = sizes.length;
+      for (const size of results) {
+        if (size !== null) sizes.push(size);
       }
-    }
+      if (sizes.length === before) break;
 
-    if (sizes.length > 0) {
-      // Calculate median
-      sizes.sort((a, b) => a - b);
-      const median = sizes[Math.floor(sizes.length / 2)] as number;
-      sizeByZoom.set(range.z, median);
-    } else {
-      // Fallback: estimate 15KB per tile
-      sizeByZoom.set(range.z, 15 * 1024);
+      const { mean, variance } = describeSizes(sizes);
+      if (sizes.length >= 2 && mean > 0 && Math.sqrt(variance / sizes.length) / mean <= TARGET_RELATIVE_ERROR) break;
     }
+
+    samplesByZoom.set(range.z, sizes);
   }
 
-  return sizeByZoom;
+  return samplesByZoom;
 }
 
 /**
- * Estimate total download size
+ * Mean and sample variance
  */
-async function estimateTileSize(
-  urlTemplate: string,
-  ranges: TileRange[],
-  subdomainRotator: SubdomainRotator,
-  tileScheme: 'xyz' | 'tms' | 'wmts'
-): Promise<{ estimatedSize: number; sizeByZoom: Map<number, number> }> {
-  const sizeByZoom = await sampleTileSizes(urlTemplate, ranges, subdomainRotator, tileScheme);
+function describeSizes(sizes: number[]): { mean: number; variance: number } {
+  const mean = sizes.reduce((sum, size) => sum + size, 0) / Math.max(sizes.length, 1);
+  const variance = sizes.length > 1
+    ? sizes.reduce((sum, size) => sum + (size - mean) ** 2, 0) / (sizes.length - 1)
+    : 0;
+  return { mean, variance };
+}
 
-  let estimatedSize = 0;
-  for (const range of ranges) {
-    const tileSize = sizeByZoom.get(range.z) ?? 15 * 1024;
-    estimatedSize += tileSize * range.count;
+/**
+ * Size estimator refined during the download
+ *
+ * Keeps running tile size statistics per zoom level (Welford), seeded with the
+ * samples, and the number of tiles still to come. Zoom levels without samples
+ * borrow the mean of the nearest sampled level. With fewer than two sizes the
+ * standard deviation is taken to be the mean, which gives a wide range.
+ */
+class SizeEstimator {
+  private zooms = new Map<number, { remaining: number; count: number; mean: number; m2: number }>();
+  private downloadedBytes: number = 0;
+
+  constructor(samplesByZoom: Map<number, number[]>, tilesByZoom: Map<number, number>) {
+    const sampled = Array.from(samplesByZoom).filter(([, sizes]) => sizes.length > 0);
+
+    for (const [z, tiles] of tilesByZoom) {
+      let sizes = samplesByZoom.get(z) ?? [];
+      let count = sizes.length;
+
+      if (sizes.length === 0) {
+        const nearest = sampled.sort(([a], [b]) => Math.abs(a - z) - Math.abs(b - z))[0];
+        sizes = nearest ? nearest[1] : [FALLBACK_TILE_SIZE];
+        count = 1;
+      }
+
+      const { mean, variance } = describeSizes(sizes);
+      this.zooms.set(z, { remaining: tiles, count, mean, m2: variance * (count - 1) });
+    }
+  }
+
+  /**
+   * Record a finished tile
+   *
+   * @param z - Zoom level
+   * @param bytes - Downloaded size; omitted for failed and unchanged tiles
+   */
+  record(z: number, bytes?: number): void {
+    const zoom = this.zooms.get(z);
+    if (zoom) zoom.remaining = Math.max(0, zoom.remaining - 1);
+    if (bytes === undefined) return;
+
+    this.downloadedBytes += bytes;
+    if (zoom) {
+      zoom.count++;
+      const delta = bytes - zoom.mean;
+      zoom.mean += delta / zoom.count;
+      zoom.m2 += delta * (bytes - zoom.mean);
+    }
   }
 
-  return { estimatedSize, sizeByZoom };
+  getEstimate(): SizeEstimate {
+    const byZoom: SizeEstimate['byZoom'] = new Map();
+    let expected = this.downloadedBytes;
+    let variance = 0;
+
+    for (const [z, zoom] of this.zooms) {
+      const deviation = zoom.count > 1 ? Math.sqrt(zoom.m2 / (zoom.count - 1)) : zoom.mean;
+      // Uncertainty of the mean, scaled to the remaining tiles
+      const margin = CONFIDENCE_Z * deviation / Math.sqrt(zoom.count) * zoom.remaining;
+      const zoomExpected = zoom.mean * zoom.remaining;
+
+      byZoom.set(z, {
+        tiles: zoom.remaining,
+        samples: zoom.count,
+        meanTileSize: zoom.mean,
+        low: Math.max(0, zoomExpected - margin),
+        expected: zoomExpected,
+        high: zoomExpected + margin
+      });
+
+      expected += zoomExpected;
+      variance += margin * margin;
+    }
+
+    const margin = Math.sqrt(variance);
+    return {
+      low: Math.max(this.downloadedBytes, expected - margin),
+      expected,
+      high: expected + margin,
+      byZoom
+    };
+  }
 }
 
 // ============================================================================
@@ -674,13 +1888,16 @@ function detectServiceType(url: string): 'wms' | 'wmts' | 'unknown' {
 /**
  * Parse WMS GetCapabilities response
  */
-async function parseWMSCapabilities(url: string): Promise<WMSCapabilities> {
+async function parseWMSCapabilities(url: string, auth: RequestAuth): Promise<WMSCapabilities> {
   const capUrl = new URL(url);
   capUrl.searchParams.set('SERVICE', 'WMS');
   capUrl.searchParams.set('REQUEST', 'GetCapabilities');
   capUrl.searchParams.set('VERSION', '1.3.0');
 
-  const response = await fetch(capUrl.toString());
+  const response = await auth.fetch(capUrl.toString());
+  if (!response.ok) {
+    throw new Error(`WMS GetCapabilities failed: HTTP ${response.status}`);
+  }
   const xml = await response.text();
   const parser = new DOMParser();
   const doc = parser.parseFromString(xml, 'text/xml');
@@ -726,13 +1943,16 @@ async function parseWMSCapabilities(url: string): Promise<WMSCapabilities> {
 /**
  * Parse WMTS GetCapabilities response
  */
-async function parseWMTSCapabilities(url: string): Promise<WMTSCapabilities> {
+async function parseWMTSCapabilities(url: string, auth: RequestAuth): Promise<WMTSCapabilities> {
   const capUrl = new URL(url);
   capUrl.searchParams.set('SERVICE', 'WMTS');
   capUrl.searchParams.set('REQUEST', 'GetCapabilities');
   capUrl.searchParams.set('VERSION', '1.0.0');
 
-  const response = await fetch(capUrl.toString());
+  const response = await auth.fetch(capUrl.toString());
+  if (!response.ok) {
+    throw new Error(`WMTS GetCapabilities failed: HTTP ${response.status}`);
+  }
   const xml = await response.text();
   const parser = new DOMParser();
   const doc = parser.parseFromString(xml, 'text/xml');
@@ -749,9 +1969,18 @@ async function parseWMTSCapabilities(url: string): Promise<WMTSCapabilities> {
     const formats = Array.from(
       layerEl.querySelectorAll('Format')
     ).map(el => el.textContent ?? '');
+    const styles = Array.from(layerEl.querySelectorAll('Style')).map(styleEl => ({
+      identifier: styleEl.querySelector('Identifier')?.textContent ?? '',
+      isDefault: styleEl.getAttribute('isDefault') === 'true'
+    }));
+    const resourceUrls = Array.from(layerEl.querySelectorAll('ResourceURL')).map(el => ({
+      format: el.getAttribute('format') ?? '',
+      resourceType: el.getAttribute('resourceType') ?? '',
+      template: el.getAttribute('template') ?? ''
+    }));
 
     if (identifier) {
-      layers.push({ identifier, title, tileMatrixSets, formats });
+      layers.push({ identifier, title, tileMatrixSets, formats, styles, resourceUrls });
     }
   });
 
@@ -767,7 +1996,7 @@ async function parseWMTSCapabilities(url: string): Promise<WMTSCapabilities> {
       identifier: tmEl.querySelector('Identifier')?.textContent ?? '',
       scaleDenominator: parseFloat(tmEl.querySelector('ScaleDenominator')?.textContent ?? '0'),
       topLeftCorner: tmEl.querySelector('TopLeftCorner')?.textContent
-        ?.split(' ').map(parseFloat) as [number, number] ?? [0, 0],
+        ?.trim().split(/\s+/).map(parseFloat) as [number, number] ?? [0, 0],
       tileWidth: parseInt(tmEl.querySelector('TileWidth')?.textContent ?? '256'),
       tileHeight: parseInt(tmEl.querySelector('TileHeight')?.textContent ?? '256'),
       matrixWidth: parseInt(tmEl.querySelector('MatrixWidth')?.textContent ?? '1'),
@@ -789,11 +2018,18 @@ async function parseWMTSCapabilities(url: string): Promise<WMTSCapabilities> {
 
 /**
  * Get supported CRS from GetCapabilities (with caching)
+ *
+ * @param capabilitiesUrl - GetCapabilities URL
+ * @param serviceType - Service type (default: detected from the URL)
+ * @param requestOptions - Headers and credentials for protected services
  */
 export async function getSupportedCRS(
   capabilitiesUrl: string,
-  serviceType?: 'wms' | 'wmts'
+  serviceType?: 'wms' | 'wmts',
+  requestOptions: RequestOptions = {}
 ): Promise<CRSCapabilities> {
+  const auth = new RequestAuth(requestOptions);
+
   // Check cache first
   const cacheKey = `${serviceType ?? 'auto'}:${capabilitiesUrl}`;
   if (capabilitiesCache.has(cacheKey)) {
@@ -806,18 +2042,18 @@ export async function getSupportedCRS(
     let supportedCRS: string[];
 
     if (detectedType === 'wms') {
-      const caps = await parseWMSCapabilities(capabilitiesUrl);
+      const caps = await parseWMSCapabilities(capabilitiesUrl, auth);
       supportedCRS = caps.supportedCRS;
     } else if (detectedType === 'wmts') {
-      const caps = await parseWMTSCapabilities(capabilitiesUrl);
+      const caps = await parseWMTSCapabilities(capabilitiesUrl, auth);
       supportedCRS = caps.supportedCRS;
     } else {
       // Try both
       try {
-        const wmsCaps = await parseWMSCapabilities(capabilitiesUrl);
+        const wmsCaps = await parseWMSCapabilities(capabilitiesUrl, auth);
         supportedCRS = wmsCaps.supportedCRS;
       } catch {
-        const wmtsCaps = await parseWMTSCapabilities(capabilitiesUrl);
+        const wmtsCaps = await parseWMTSCapabilities(capabilitiesUrl, auth);
         supportedCRS = wmtsCaps.supportedCRS;
       }
     }
@@ -854,20 +2090,223 @@ export async function getSupportedCRS(
   }
 }
 
-// ============================================================================
-// ERROR HANDLING & RETRY LOGIC
-// ============================================================================
-
 /**
- * Classify error type
+ * Fetch WMS capabilities (cached per URL, failed requests are not cached)
  */
-function classifyError(error: unknown, response?: Response): Omit<TileError, 'tile' | 'attempts' | 'timestamp'> {
-  if (error instanceof TypeError && error.message.includes('fetch')) {
-    return {
-      errorType: 'network',
-      message: 'Network failure - no response received',
-      retryable: true
-    };
+function getWMSCapabilities(url: string, auth: RequestAuth): Promise<WMSCapabilities> {
+  let capabilities = wmsCapabilitiesCache.get(url);
+
+  if (!capabilities) {
+    capabilities = parseWMSCapabilities(url, auth);
+    wmsCapabilitiesCache.set(url, capabilities);
+    capabilities.catch(() => wmsCapabilitiesCache.delete(url));
+  }
+
+  return capabilities;
+}
+
+/**
+ * Resolve WMS GetMap parameters and tile grid, checking layers and CRS
+ * against the capabilities when a capabilities URL is configured
+ */
+async function resolveWMSSource(
+  config: TileDownloadConfig,
+  auth: RequestAuth
+): Promise<{ crs: string; tileGrid: TileGrid; request: WMSRequest }> {
+  const options = config.wms;
+  if (!options) {
+    throw new Error('WMS downloads require the wms GetMap options');
+  }
+
+  const layers = Array.isArray(options.layers) ? options.layers : options.layers.split(',');
+  const crs = config.crs ?? 'EPSG:3857';
+  let version: string = options.version ?? '1.3.0';
+
+  if (config.capabilitiesUrl) {
+    const capabilities = config.wmsCapabilities ?? await getWMSCapabilities(config.capabilitiesUrl, auth);
+    version = options.version ?? capabilities.version;
+
+    for (const name of layers) {
+      const layer = capabilities.layers.find(l => l.name === name);
+      if (!layer) {
+        throw new Error(`WMS layer not found in capabilities: ${name}`);
+      }
+      // CRS may be inherited from parent layers, so a missing entry is only a hint
+      if (!layer.crs.includes(crs) && !capabilities.supportedCRS.includes(crs)) {
+        console.warn(`WMS layer ${name} does not advertise ${crs}`);
+      }
+    }
+  }
+
+  const projection = getProjection(crs);
+  if (!projection) {
+    throw new Error(`Unknown projection: ${crs}`);
+  }
+
+  const tileGrid = createTileGrid(crs, options.tileSize ?? 256);
+
+  return {
+    crs,
+    tileGrid,
+    request: {
+      url: config.url,
+      version,
+      layers: layers.join(','),
+      styles: Array.isArray(options.styles) ? options.styles.join(',') : (options.styles ?? ''),
+      format: options.format ?? 'image/png',
+      transparent: options.transparent ?? false,
+      crs,
+      tileGrid,
+      swapAxes: version.startsWith('1.3') && projection.getAxisOrientation().startsWith('ne'),
+      params: options.params ?? {}
+    }
+  };
+}
+
+/**
+ * Fetch WMTS capabilities (cached per URL, failed requests are not cached)
+ */
+function getWMTSCapabilities(url: string, auth: RequestAuth): Promise<WMTSCapabilities> {
+  let capabilities = wmtsCapabilitiesCache.get(url);
+
+  if (!capabilities) {
+    capabilities = parseWMTSCapabilities(url, auth);
+    wmtsCapabilitiesCache.set(url, capabilities);
+    capabilities.catch(() => wmtsCapabilitiesCache.delete(url));
+  }
+
+  return capabilities;
+}
+
+/**
+ * Resolve WMTS layer, tile matrix set, tile grid and request parameters from capabilities
+ */
+async function resolveWMTSSource(
+  config: TileDownloadConfig,
+  auth: RequestAuth
+): Promise<{ crs: string; tileGrid: WMTSTileGrid; request: WMTSRequest }> {
+  const options = config.wmts;
+  if (!options) {
+    throw new Error('WMTS downloads require the wmts layer options');
+  }
+
+  const capabilities = config.wmtsCapabilities
+    ?? await getWMTSCapabilities(config.capabilitiesUrl ?? config.url, auth);
+
+  const layer = capabilities.layers.find(l => l.identifier === options.layer);
+  if (!layer) {
+    throw new Error(`WMTS layer not found in capabilities: ${options.layer}`);
+  }
+
+  const matrixSetId = options.tileMatrixSet ?? layer.tileMatrixSets[0];
+  const matrixSet = capabilities.tileMatrixSets.find(set => set.identifier === matrixSetId);
+  if (!matrixSet || !layer.tileMatrixSets.includes(matrixSet.identifier)) {
+    throw new Error(`TileMatrixSet ${matrixSetId} is not available for WMTS layer ${layer.identifier}`);
+  }
+
+  const matrixCount = matrixSet.tileMatrices.length;
+  if (config.minZoom < 0 || config.maxZoom >= matrixCount) {
+    throw new Error(`Zoom levels must be within 0-${matrixCount - 1} for TileMatrixSet ${matrixSet.identifier}`);
+  }
+
+  const format = options.format ?? layer.formats[0] ?? 'image/png';
+  const style = options.style
+    ?? layer.styles.find(s => s.isDefault)?.identifier
+    ?? layer.styles[0]?.identifier
+    ?? 'default';
+
+  const tileResources = layer.resourceUrls.filter(r => r.resourceType === 'tile');
+  const restTemplate = /\{TileMatrix\}/i.test(config.url)
+    ? config.url
+    : (tileResources.find(r => r.format === format) ?? tileResources[0])?.template;
+
+  const encoding = options.requestEncoding ?? (restTemplate ? 'REST' : 'KVP');
+
+  if (encoding === 'REST') {
+    if (!restTemplate) {
+      throw new Error(`No REST template for WMTS layer ${layer.identifier}: use a url with {TileMatrix}, {TileRow} and {TileCol} or KVP encoding`);
+    }
+    const missing = ['TileMatrix', 'TileRow', 'TileCol']
+      .filter(name => !new RegExp(`\\{${name}\\}`, 'i').test(restTemplate));
+    if (missing.length > 0) {
+      throw new Error(`Invalid WMTS template: ${missing.join(', ')} placeholders missing`);
+    }
+  }
+
+  return {
+    crs: matrixSet.crs,
+    tileGrid: createWMTSTileGrid(matrixSet, matrixSet.crs),
+    request: {
+      url: encoding === 'REST' ? restTemplate! : config.url,
+      encoding,
+      layer: layer.identifier,
+      style,
+      format,
+      tileMatrixSet: matrixSet.identifier,
+      matrixIds: matrixSet.tileMatrices.map(m => m.identifier),
+      dimensions: options.dimensions ?? {},
+      variables: config.urlVariables ?? {}
+    }
+  };
+}
+
+/**
+ * Fetch and parse the capabilities a download needs on the calling thread
+ *
+ * Workers have no DOMParser, so configs handed to a worker carry the parsed
+ * WMTS or WMS capabilities instead of having the worker fetch them.
+ *
+ * @param config - Download configuration
+ * @returns Config with `wmtsCapabilities` set for WMTS downloads, and
+ * `wmsCapabilities` for WMS downloads with a `capabilitiesUrl`
+ */
+export async function prefetchCapabilities(config: TileDownloadConfig): Promise<TileDownloadConfig> {
+  if (config.tileScheme === 'wmts' && !config.wmtsCapabilities) {
+    const auth = createRequestAuth(config);
+    return { ...config, wmtsCapabilities: await getWMTSCapabilities(config.capabilitiesUrl ?? config.url, auth) };
+  }
+
+  if (config.tileScheme === 'wms' && config.capabilitiesUrl && !config.wmsCapabilities) {
+    const auth = createRequestAuth(config);
+    return { ...config, wmsCapabilities: await getWMSCapabilities(config.capabilitiesUrl, auth) };
+  }
+
+  return config;
+}
+
+// ============================================================================
+// ERROR HANDLING & RETRY LOGIC
+// ============================================================================
+
+/**
+ * Classify error type
+ */
+function classifyError(error: unknown, response?: Response): Omit<TileError, 'tile' | 'attempts' | 'timestamp'> {
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    return {
+      errorType: 'network',
+      message: 'Network failure - no response received',
+      retryable: true
+    };
+  }
+
+  if (error instanceof HttpError) {
+    const config = HTTP_ERROR_HANDLING[error.status];
+    return {
+      errorType: 'http',
+      httpStatus: error.status,
+      message: config?.message ?? error.message,
+      retryable: config?.retryable ?? !NON_RETRYABLE_HTTP_CODES.includes(error.status),
+      retryAfter: error.retryAfter
+    };
+  }
+
+  if (error instanceof TilePayloadError) {
+    return {
+      errorType: 'parse',
+      message: error.message,
+      retryable: error.retryable
+    };
   }
 
   if (error instanceof DOMException && error.name === 'AbortError') {
@@ -905,34 +2344,74 @@ function classifyError(error: unknown, response?: Response): Omit<TileError, 'ti
 
 /**
  * Retry controller with exponential backoff
+ *
+ * Server pushback (429/5xx) is reported to the queue, and a Retry-After delay
+ * replaces the backoff schedule. A Retry-After beyond `maxRetryAfter` fails
+ * the tile, and the queue holds requests for `maxRetryAfter` at most. Every
+ * attempt is recorded with the host's circuit breaker; once it opens, the
+ * tile is deferred instead of retried.
  */
 class RetryController {
   constructor(
     private maxRetries: number,
-    private baseDelay: number
+    private baseDelay: number,
+    private maxRetryAfter: number,
+    private queue?: DownloadQueue,
+    private abortSignal?: AbortSignal
   ) {}
 
   async executeWithRetry<T>(
     fn: () => Promise<T>,
     tile: TileCoordinate
-  ): Promise<{ success: true; result: T } | { success: false; error: TileError }> {
+  ): Promise<{ success: true; result: T } | { success: false; error: TileError } | { success: false; deferred: true }> {
     let lastError: Omit<TileError, 'tile' | 'attempts' | 'timestamp'> | null = null;
     let attempt = 0;
 
     while (attempt <= this.maxRetries) {
       try {
         const result = await fn();
+        this.queue?.reportAttempt(tile, false);
         return { success: true, result };
       } catch (error) {
         const errorInfo = classifyError(error);
         lastError = errorInfo;
 
+        if (isPushbackStatus(errorInfo.httpStatus)) {
+          const retryAfter = errorInfo.retryAfter === undefined
+            ? undefined
+            : Math.min(errorInfo.retryAfter, this.maxRetryAfter);
+          this.queue?.reportPushback(tile, retryAfter);
+        }
+
+        const hostFailure = isHostFailure(errorInfo);
+        this.queue?.reportAttempt(tile, hostFailure);
+
+        // The host's circuit breaker opened: hand the tile back to be routed to another host
+        if (hostFailure && this.queue && !this.queue.isHostHealthy(tile)) {
+          return { success: false, deferred: true };
+        }
+
         if (!errorInfo.retryable || attempt >= this.maxRetries) {
           break;
         }
 
-        const delay = this.getBackoffDelay(attempt);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        // Waiting that long would stall the download; the tile can be retried later
+        if (errorInfo.retryAfter !== undefined && errorInfo.retryAfter > this.maxRetryAfter) {
+          lastError = {
+            ...errorInfo,
+            message: `HTTP ${errorInfo.httpStatus}: server asked to retry after ${Math.ceil(errorInfo.retryAfter / 1000)} s, longer than maxRetryAfter`
+          };
+          break;
+        }
+
+        const delay = errorInfo.retryAfter ?? this.getBackoffDelay(attempt);
+        await abortableDelay(delay, this.abortSignal);
+        await this.queue?.waitForBackoff();
+
+        // Cancelled while waiting: give up instead of retrying
+        if (this.abortSignal?.aborted) {
+          break;
+        }
 
         attempt++;
       }
@@ -958,6 +2437,28 @@ class RetryController {
 // DOWNLOAD QUEUE & RATE LIMITING
 // ============================================================================
 
+/**
+ * Wait for a delay, ending early when the signal aborts
+ */
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 /**
  * Rate limiter using token bucket algorithm
  */
@@ -980,39 +2481,396 @@ class RateLimiter {
 }
 
 /**
- * Download queue with concurrency and rate limiting
+ * Adaptive concurrency: halves on server pushback, grows by one after a
+ * window of successes (AIMD)
+ */
+class AdaptiveConcurrency {
+  private current: number;
+  private successes: number = 0;
+  private lastDecrease: number = 0;
+
+  constructor(
+    private readonly max: number,
+    private readonly cooldown: number = 1000
+  ) {
+    this.current = max;
+  }
+
+  get value(): number {
+    return this.current;
+  }
+
+  recordSuccess(): void {
+    if (this.current >= this.max) return;
+
+    this.successes++;
+    if (this.successes >= this.current * 2) {
+      this.current++;
+      this.successes = 0;
+    }
+  }
+
+  recordPushback(): void {
+    // Requests already in flight report the same pushback, so decrease once per cooldown
+    const now = Date.now();
+    if (now - this.lastDecrease < this.cooldown) return;
+
+    this.current = Math.max(1, Math.floor(this.current / 2));
+    this.successes = 0;
+    this.lastDecrease = now;
+  }
+}
+
+/**
+ * Concurrency budget shared by several downloads
+ *
+ * Each tile request holds one slot; free slots go to the waiting download
+ * with the highest priority (first come, first served on ties).
+ */
+export class ConcurrencyBudget {
+  private active: number = 0;
+  private sequence: number = 0;
+  private waiters: Array<{ priority: () => number; sequence: number; grant: () => void }> = [];
+
+  constructor(private limit: number) {}
+
+  get inUse(): number {
+    return this.active;
+  }
+
+  /**
+   * Wait for a slot
+   *
+   * @param priority - Priority, re-read whenever a slot is handed out
+   */
+  acquire(priority: () => number = () => 0): Promise<void> {
+    const current = priority();
+    if (this.active < this.limit && !this.waiters.some(waiter => waiter.priority() > current)) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.waiters.push({ priority, sequence: this.sequence++, grant: resolve });
+    });
+  }
+
+  release(): void {
+    this.active = Math.max(0, this.active - 1);
+    this.grantWaiting();
+  }
+
+  setLimit(limit: number): void {
+    this.limit = limit;
+    this.grantWaiting();
+  }
+
+  private grantWaiting(): void {
+    while (this.active < this.limit && this.waiters.length > 0) {
+      let next = 0;
+      for (let i = 1; i < this.waiters.length; i++) {
+        const waiter = this.waiters[i]!;
+        const best = this.waiters[next]!;
+        const priority = waiter.priority();
+        const bestPriority = best.priority();
+        if (priority > bestPriority || (priority === bestPriority && waiter.sequence < best.sequence)) {
+          next = i;
+        }
+      }
+
+      const [waiter] = this.waiters.splice(next, 1);
+      this.active++;
+      waiter!.grant();
+    }
+  }
+}
+
+/**
+ * Outstanding slot request of one download against a shared budget
+ *
+ * Downloads keep a request waiting while their own tiles are in flight, so
+ * free slots always go to the highest-priority download that wants one.
+ */
+class BudgetRequest {
+  private pending: Promise<void> | null = null;
+  private granted: boolean = false;
+
+  constructor(
+    private pool: ConcurrencyBudget,
+    private priority: () => number
+  ) {}
+
+  /**
+   * Ask for a slot unless a request is already outstanding
+   */
+  request(): void {
+    if (this.pending) return;
+
+    this.granted = false;
+    this.pending = this.pool.acquire(this.priority).then(() => {
+      this.granted = true;
+    });
+  }
+
+  get isGranted(): boolean {
+    return this.granted;
+  }
+
+  /**
+   * Promise of the outstanding request, if not granted yet
+   */
+  get waiting(): Promise<void> | null {
+    return this.pending && !this.granted ? this.pending : null;
+  }
+
+  /**
+   * Take the granted slot; the caller releases it when its request is done
+   */
+  take(): void {
+    this.pending = null;
+    this.granted = false;
+  }
+
+  release(): void {
+    this.pool.release();
+  }
+
+  /**
+   * Withdraw the request; a slot granted later is handed back right away
+   */
+  cancel(): void {
+    this.pending?.then(() => this.pool.release());
+    this.pending = null;
+    this.granted = false;
+  }
+}
+
+/**
+ * Bandwidth limiter: each downloaded byte delays the next request
+ */
+class BandwidthLimiter {
+  private availableAt: number = Date.now();
+
+  constructor(private bytesPerSecond: number) {}
+
+  async acquire(): Promise<void> {
+    const wait = this.availableAt - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  consume(bytes: number): void {
+    this.availableAt = Math.max(this.availableAt, Date.now()) + (bytes / this.bytesPerSecond) * 1000;
+  }
+}
+
+/**
+ * Maximum concurrent requests per host over HTTP/1.1 (browser connection limit)
+ */
+const HTTP1_MAX_HOST_CONCURRENCY = 6;
+
+/**
+ * Maximum concurrent requests per host over multiplexed HTTP/2 or HTTP/3
+ */
+const HTTP2_MAX_HOST_CONCURRENCY = 32;
+
+/**
+ * Tiles taken from the tile source ahead of the downloads
+ */
+const TILE_BUFFER_SIZE = 512;
+
+/**
+ * Pending tiles and connections of one host
+ */
+interface HostPool {
+  tiles: TileCoordinate[];
+  active: number;
+  concurrency: AdaptiveConcurrency;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Host key of a tile URL, e.g. 'a.tile.example.com'
+ */
+function getHostKey(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Download queue with per-host connection pools and circuit breakers, rate and bandwidth limiting
  */
 class DownloadQueue {
-  private queue: TileCoordinate[] = [];
+  private pools = new Map<string, HostPool>();
+  private nextPool: number = 0;
   private paused: boolean = false;
   private rateLimiter: RateLimiter | null = null;
+  private bandwidthLimiter: BandwidthLimiter | null = null;
+  private backoffUntil: number = 0;
 
+  /**
+   * @param abortSignal - Ends waits for pause and Retry-After when the download is cancelled
+   */
   constructor(
-    public readonly concurrency: number,
-    rateLimit?: number
+    private hostConcurrency: number,
+    private breakers: HostCircuitBreakers,
+    rateLimit?: number,
+    bandwidthLimit?: number,
+    private abortSignal?: AbortSignal
   ) {
     if (rateLimit) {
       this.rateLimiter = new RateLimiter(rateLimit);
     }
+    if (bandwidthLimit) {
+      this.bandwidthLimiter = new BandwidthLimiter(bandwidthLimit);
+    }
+  }
+
+  /**
+   * Effective concurrency summed over all hosts
+   */
+  get concurrency(): number {
+    let total = 0;
+    for (const pool of this.pools.values()) {
+      total += pool.concurrency.value;
+    }
+    return total;
+  }
+
+  get concurrencyByHost(): Record<string, number> {
+    const byHost: Record<string, number> = {};
+    for (const [host, pool] of this.pools) {
+      byHost[host] = pool.concurrency.value;
+    }
+    return byHost;
   }
 
   enqueue(tile: TileCoordinate): void {
-    this.queue.push(tile);
+    this.getPool(tile).tiles.push(tile);
   }
 
+  /**
+   * Whether some host has a pending tile, a free connection and lets requests through
+   */
+  hasAvailable(): boolean {
+    for (const pool of this.pools.values()) {
+      if (pool.tiles.length > 0 && pool.active < pool.concurrency.value && pool.breaker.isAvailable()) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Take the next tile from a host with a free connection (round robin)
+   *
+   * @returns Tile, or null if every host with pending tiles is at its limit or behind an open circuit breaker
+   */
   async dequeue(): Promise<TileCoordinate | null> {
     // Wait while paused
-    while (this.paused) {
-      await new Promise(resolve => setTimeout(resolve, 100));
+    while (this.paused && !this.abortSignal?.aborted) {
+      await abortableDelay(100, this.abortSignal);
+    }
+
+    await this.waitForBackoff();
+
+    const pools = Array.from(this.pools.values());
+    for (let i = 0; i < pools.length; i++) {
+      const index = (this.nextPool + i) % pools.length;
+      const pool = pools[index] as HostPool;
+
+      if (pool.tiles.length > 0 && pool.active < pool.concurrency.value && pool.breaker.tryAcquire()) {
+        this.nextPool = index + 1;
+        pool.active++;
+        return pool.tiles.shift() ?? null;
+      }
     }
 
-    return this.queue.shift() ?? null;
+    return null;
+  }
+
+  /**
+   * Free the connection slot of a finished tile
+   */
+  release(tile: TileCoordinate): void {
+    const pool = this.getPool(tile);
+    pool.active = Math.max(0, pool.active - 1);
   }
 
   async acquireRateLimit(): Promise<void> {
+    await this.waitForBackoff();
+
     if (this.rateLimiter) {
       await this.rateLimiter.acquire();
     }
+    if (this.bandwidthLimiter) {
+      await this.bandwidthLimiter.acquire();
+    }
+  }
+
+  /**
+   * Reduce the host's concurrency and, with a Retry-After delay, hold all requests until it passed
+   */
+  reportPushback(tile: TileCoordinate, retryAfter?: number): void {
+    this.getPool(tile).concurrency.recordPushback();
+
+    if (retryAfter !== undefined) {
+      this.backoffUntil = Math.max(this.backoffUntil, Date.now() + retryAfter);
+    }
+  }
+
+  reportSuccess(tile: TileCoordinate, bytes: number): void {
+    this.getPool(tile).concurrency.recordSuccess();
+    this.bandwidthLimiter?.consume(bytes);
+  }
+
+  /**
+   * Record a request attempt with the host's circuit breaker
+   */
+  reportAttempt(tile: TileCoordinate, hostFailure: boolean): void {
+    this.getPool(tile).breaker.record(hostFailure);
+  }
+
+  /**
+   * Whether the tile's host still takes retries (its circuit breaker is closed)
+   */
+  isHostHealthy(tile: TileCoordinate): boolean {
+    return this.getPool(tile).breaker.isClosed;
+  }
+
+  /**
+   * Move pending tiles of hosts behind an open circuit breaker to other hosts
+   *
+   * @param route - Tile with a URL on a host that takes requests, or null if there is none
+   */
+  reroute(route: (tile: TileCoordinate) => TileCoordinate | null): void {
+    for (const pool of Array.from(this.pools.values())) {
+      if (pool.tiles.length === 0 || pool.breaker.isAvailable()) continue;
+
+      const blocked = pool.tiles;
+      pool.tiles = [];
+      for (const tile of blocked) {
+        const routed = route(tile);
+        if (routed) {
+          this.enqueue(routed);
+        } else {
+          pool.tiles.push(tile);
+        }
+      }
+    }
+  }
+
+  /**
+   * Wait until a Retry-After hold has passed; returns at once when the download is cancelled
+   */
+  async waitForBackoff(): Promise<void> {
+    let remaining = this.backoffUntil - Date.now();
+    while (remaining > 0 && !this.abortSignal?.aborted) {
+      await abortableDelay(remaining, this.abortSignal);
+      remaining = this.backoffUntil - Date.now();
+    }
   }
 
   pause(): void {
@@ -1024,11 +2882,34 @@ class DownloadQueue {
   }
 
   clear(): void {
-    this.queue = [];
+    for (const pool of this.pools.values()) {
+      pool.tiles = [];
+    }
   }
 
   get pending(): number {
-    return this.queue.length;
+    let pending = 0;
+    for (const pool of this.pools.values()) {
+      pending += pool.tiles.length;
+    }
+    return pending;
+  }
+
+  private getPool(tile: TileCoordinate): HostPool {
+    const host = getHostKey(tile.url);
+    let pool = this.pools.get(host);
+
+    if (!pool) {
+      pool = {
+        tiles: [],
+        active: 0,
+        concurrency: new AdaptiveConcurrency(this.hostConcurrency),
+        breaker: this.breakers.get(host)
+      };
+      this.pools.set(host, pool);
+    }
+
+    return pool;
   }
 }
 
@@ -1070,11 +2951,26 @@ class DownloadController {
     this.emit('cancel');
   }
 
-  setState(state: DownloadState): void {
+  /**
+   * Stop after an unrecoverable error
+   */
+  fail(): void {
+    if (this.isFinished()) return;
+
+    this.state = DownloadState.FAILED;
+    this.abortController.abort();
+    this.emit('stateChange');
+  }
+
+  setState(state: DownloadState): void {
     this.state = state;
     this.emit('stateChange');
   }
 
+  isFinished(): boolean {
+    return this.state === DownloadState.COMPLETED || this.state === DownloadState.CANCELLED || this.state === DownloadState.FAILED;
+  }
+
   getState(): DownloadState {
     return this.state;
   }
@@ -1114,6 +3010,50 @@ class DownloadController {
   }
 }
 
+// ============================================================================
+// DOWNLOAD EVENTS
+// ============================================================================
+
+/**
+ * Typed event emitter of a download
+ *
+ * `tile` listeners are awaited, so slow consumers hold back the download, and
+ * a rejected `tile` listener fails it. Errors of other listeners are logged.
+ */
+class DownloadEvents {
+  private listeners: { [K in keyof DownloadEventMap]?: Set<DownloadEventListener<K>> } = {};
+
+  on<K extends keyof DownloadEventMap>(type: K, listener: DownloadEventListener<K>): () => void {
+    const listeners: Set<DownloadEventListener<K>> = this.listeners[type] ?? new Set();
+    listeners.add(listener);
+    this.listeners[type] = listeners as (typeof this.listeners)[K];
+    return () => this.off(type, listener);
+  }
+
+  off<K extends keyof DownloadEventMap>(type: K, listener: DownloadEventListener<K>): void {
+    this.listeners[type]?.delete(listener);
+  }
+
+  /**
+   * Deliver a tile to all `tile` listeners and wait for them
+   */
+  async emitTile(tile: TileBlob): Promise<void> {
+    await Promise.all(Array.from(this.listeners.tile ?? [], listener => listener(tile)));
+  }
+
+  emit<K extends Exclude<keyof DownloadEventMap, 'tile'>>(type: K, event: DownloadEventMap[K]): void {
+    const listeners: Set<DownloadEventListener<K>> | undefined = this.listeners[type];
+
+    for (const listener of listeners ?? []) {
+      try {
+        Promise.resolve(listener(event)).catch(error => console.warn(`[downloadTiles] ${type} listener failed:`, error));
+      } catch (error) {
+        console.warn(`[downloadTiles] ${type} listener failed:`, error);
+      }
+    }
+  }
+}
+
 // ============================================================================
 // PROGRESS TRACKING
 // ============================================================================
@@ -1126,20 +3066,39 @@ class ProgressTracker {
   private startTime: number;
   private lastUpdateTime: number;
   private downloadedSinceLastUpdate: number = 0;
-
-  constructor(totalTiles: number, estimatedBytes: number) {
+  private lastNotifyTime: number = 0;
+
+  /**
+   * @param totalTiles - Tiles to download
+   * @param sizeEstimator - Size estimate refined with every tile
+   * @param onChange - Called with a snapshot on changes, at most once per interval except for state changes
+   * @param notifyInterval - Minimum time between change notifications in ms
+   */
+  constructor(
+    totalTiles: number,
+    private sizeEstimator: SizeEstimator,
+    private onChange?: (progress: LiveProgress) => void,
+    private notifyInterval: number = 1000
+  ) {
+    const estimate = sizeEstimator.getEstimate();
     this.progress = {
       state: DownloadState.DOWNLOADING,
       downloaded: 0,
       failed: 0,
+      unchanged: 0,
       pending: totalTiles,
       retrying: 0,
       totalTiles,
       downloadedBytes: 0,
-      estimatedBytes,
+      estimatedBytes: estimate.expected,
+      estimatedBytesLow: estimate.low,
+      estimatedBytesHigh: estimate.high,
       percentComplete: 0,
       currentSpeed: 0,
-      eta: 0
+      eta: 0,
+      concurrency: 0,
+      concurrencyByHost: {},
+      circuitBreakers: {}
     };
     this.startTime = Date.now();
     this.lastUpdateTime = this.startTime;
@@ -1159,8 +3118,37 @@ class ProgressTracker {
     this.updateMetrics();
   }
 
+  recordUnchanged(): void {
+    this.progress.unchanged++;
+    this.progress.pending--;
+    this.updateMetrics();
+  }
+
+  /**
+   * Refine the size estimate with a finished tile (bytes omitted if nothing was downloaded)
+   */
+  recordTileSize(z: number, bytes?: number): void {
+    this.sizeEstimator.record(z, bytes);
+
+    const estimate = this.sizeEstimator.getEstimate();
+    this.progress.estimatedBytes = estimate.expected;
+    this.progress.estimatedBytesLow = estimate.low;
+    this.progress.estimatedBytesHigh = estimate.high;
+  }
+
   setState(state: DownloadState): void {
+    if (this.progress.state === state) return;
     this.progress.state = state;
+    this.notify(true);
+  }
+
+  setConcurrency(concurrency: number, concurrencyByHost: Record<string, number>): void {
+    this.progress.concurrency = concurrency;
+    this.progress.concurrencyByHost = concurrencyByHost;
+  }
+
+  setCircuitBreakers(circuitBreakers: Record<string, CircuitBreakerStatus>): void {
+    this.progress.circuitBreakers = circuitBreakers;
   }
 
   private updateMetrics(): void {
@@ -1176,45 +3164,211 @@ class ProgressTracker {
 
     // Calculate percent complete
     this.progress.percentComplete =
-      (this.progress.downloaded + this.progress.failed) / this.progress.totalTiles;
+      (this.progress.downloaded + this.progress.failed + this.progress.unchanged) / this.progress.totalTiles;
 
     // Estimate time remaining
     if (this.progress.currentSpeed > 0) {
       const remaining = this.progress.estimatedBytes - this.progress.downloadedBytes;
       this.progress.eta = remaining / this.progress.currentSpeed;
     }
+
+    this.notify(false);
+  }
+
+  private notify(force: boolean): void {
+    const now = Date.now();
+    if (!this.onChange || (!force && now - this.lastNotifyTime < this.notifyInterval)) return;
+
+    this.lastNotifyTime = now;
+    this.onChange(this.getSnapshot());
   }
 
   getSnapshot(): LiveProgress {
-    return { ...this.progress };
+    return {
+      ...this.progress,
+      concurrencyByHost: { ...this.progress.concurrencyByHost },
+      circuitBreakers: { ...this.progress.circuitBreakers }
+    };
   }
 }
 
 // ============================================================================
-// FAILURE MONITORING
+// CIRCUIT BREAKERS
 // ============================================================================
 
 /**
- * Failure monitor for abort threshold
+ * Whether a failure says something about the host rather than the tile
+ *
+ * Missing tiles, bad payloads and rate limiting (handled by adaptive
+ * concurrency) do not count against the host.
  */
-class FailureMonitor {
-  private total: number = 0;
-  private failed: number = 0;
+function isHostFailure(error: Pick<TileError, 'errorType' | 'httpStatus'>): boolean {
+  if (error.errorType === 'network' || error.errorType === 'timeout') return true;
+  return error.errorType === 'http' && error.httpStatus !== undefined && error.httpStatus >= 500;
+}
 
-  constructor(private threshold: number) {}
+/**
+ * Circuit breaker of one host
+ *
+ * Opens when the failure ratio over the recent requests exceeds the threshold.
+ * After the open time one probe request is let through (half-open): success
+ * closes the breaker, failure opens it again for twice as long.
+ */
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: boolean[] = [];
+  private trips: number = 0;
+  private openUntil: number = 0;
+  private probing: boolean = false;
+
+  constructor(private options: Required<CircuitBreakerOptions>) {}
 
-  recordAttempt(success: boolean): void {
-    this.total++;
-    if (!success) this.failed++;
+  get isClosed(): boolean {
+    return this.state === 'closed';
   }
 
-  get failureRatio(): number {
-    return this.total > 0 ? this.failed / this.total : 0;
+  get isDown(): boolean {
+    return this.trips >= this.options.maxTrips;
   }
 
-  shouldAbort(): boolean {
-    if (this.total < 10) return false;
-    return this.failureRatio > this.threshold;
+  get retryAt(): number | null {
+    return this.state === 'open' && !this.isDown ? this.openUntil : null;
+  }
+
+  private get failureRatio(): number {
+    return this.outcomes.length > 0 ? this.outcomes.filter(Boolean).length / this.outcomes.length : 0;
+  }
+
+  /**
+   * Whether new requests may be routed to the host
+   */
+  isAvailable(): boolean {
+    if (this.state === 'closed') return true;
+    if (this.isDown || this.probing) return false;
+    return this.state === 'half-open' || Date.now() >= this.openUntil;
+  }
+
+  /**
+   * Claim a request; an open breaker lets one probe through once its open time passed
+   */
+  tryAcquire(): boolean {
+    if (!this.isAvailable()) return false;
+
+    if (this.state !== 'closed') {
+      this.state = 'half-open';
+      this.probing = true;
+    }
+    return true;
+  }
+
+  /**
+   * Record the outcome of a request attempt
+   */
+  record(failed: boolean): void {
+    if (this.state === 'half-open') {
+      this.probing = false;
+      if (failed) {
+        this.open();
+      } else {
+        this.close();
+      }
+      return;
+    }
+
+    // Requests started before the breaker opened
+    if (this.state === 'open') return;
+
+    this.outcomes.push(failed);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+
+    if (this.outcomes.length >= this.options.minimumRequests && this.failureRatio > this.options.failureThreshold) {
+      this.open();
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      failureRatio: this.failureRatio,
+      trips: this.trips,
+      down: this.isDown,
+      retryAt: this.retryAt
+    };
+  }
+
+  private open(): void {
+    this.trips++;
+    this.state = 'open';
+    this.openUntil = Date.now() + this.options.openDuration * Math.pow(2, this.trips - 1);
+  }
+
+  private close(): void {
+    this.state = 'closed';
+    this.outcomes = [];
+    this.trips = 0;
+  }
+}
+
+/**
+ * Circuit breakers by host
+ */
+class HostCircuitBreakers {
+  private breakers = new Map<string, CircuitBreaker>();
+  private options: Required<CircuitBreakerOptions>;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      failureThreshold: options.failureThreshold ?? 0.5,
+      minimumRequests: options.minimumRequests ?? 10,
+      windowSize: options.windowSize ?? 20,
+      openDuration: options.openDuration ?? 30000,
+      maxTrips: options.maxTrips ?? 3
+    };
+  }
+
+  get(host: string): CircuitBreaker {
+    let breaker = this.breakers.get(host);
+
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.options);
+      this.breakers.set(host, breaker);
+    }
+
+    return breaker;
+  }
+
+  /**
+   * Whether every host failed `maxTrips` times in a row
+   */
+  allDown(): boolean {
+    if (this.breakers.size === 0) return false;
+    return Array.from(this.breakers.values()).every(breaker => breaker.isDown);
+  }
+
+  /**
+   * Earliest time an open breaker lets a probe through, or null if none will
+   */
+  nextRetryAt(): number | null {
+    let next: number | null = null;
+    for (const breaker of this.breakers.values()) {
+      const retryAt = breaker.retryAt;
+      if (retryAt !== null && (next === null || retryAt < next)) next = retryAt;
+    }
+    return next;
+  }
+
+  getStatus(): Record<string, CircuitBreakerStatus> {
+    const byHost: Record<string, CircuitBreakerStatus> = {};
+    for (const [host, breaker] of this.breakers) {
+      byHost[host] = breaker.getStatus();
+    }
+    return byHost;
+  }
+
+  get downHosts(): string[] {
+    return Array.from(this.breakers).filter(([, breaker]) => breaker.isDown).map(([host]) => host);
   }
 }
 
@@ -1222,10 +3376,38 @@ class FailureMonitor {
 // TILE DOWNLOAD
 // ============================================================================
 
+/**
+ * Read cache validators from response headers
+ */
+function readValidators(response: Response): TileValidators {
+  return {
+    etag: response.headers.get('ETag') ?? undefined,
+    lastModified: response.headers.get('Last-Modified') ?? undefined,
+    cacheControl: response.headers.get('Cache-Control') ?? undefined
+  };
+}
+
+/**
+ * Conditional request headers for a stored tile
+ */
+function getConditionalHeaders(validators?: TileValidators): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (validators?.etag) headers['If-None-Match'] = validators.etag;
+  if (validators?.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+  return headers;
+}
+
 /**
  * Download single tile
+ *
+ * @returns Tile blob with validators; the blob is null if the server answered 304 Not Modified
  */
-async function downloadTile(url: string, abortSignal: AbortSignal): Promise<Blob> {
+async function downloadTile(
+  tile: TileCoordinate,
+  abortSignal: AbortSignal,
+  auth: RequestAuth,
+  validatePayload: PayloadValidator
+): Promise<{ blob: Blob | null; validators: TileValidators }> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 10000); // 10 second timeout
 
@@ -1233,20 +3415,28 @@ async function downloadTile(url: string, abortSignal: AbortSignal): Promise<Blob
   const combinedSignal = abortSignal.aborted ? abortSignal : controller.signal;
 
   try {
-    const response = await fetch(url, { signal: combinedSignal });
+    const response = await auth.fetch(tile.url, combinedSignal, getConditionalHeaders(tile.validators));
+
+    if (response.status === 304 && tile.validators) {
+      // A 304 may carry new validators; keep the stored ones it leaves out
+      const fresh = readValidators(response);
+      return {
+        blob: null,
+        validators: {
+          etag: fresh.etag ?? tile.validators.etag,
+          lastModified: fresh.lastModified ?? tile.validators.lastModified,
+          cacheControl: fresh.cacheControl ?? tile.validators.cacheControl
+        }
+      };
+    }
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
+      throw new HttpError(response.status, parseRetryAfter(response.headers.get('Retry-After')));
     }
 
-    const blob = await response.blob();
-
-    // Verify it's an image
-    if (!blob.type.startsWith('image/')) {
-      throw new Error('Response is not an image');
-    }
+    const blob = await validatePayload(await response.blob());
 
-    return blob;
+    return { blob, validators: readValidators(response) };
   } finally {
     clearTimeout(timeout);
   }
@@ -1254,33 +3444,149 @@ async function downloadTile(url: string, abortSignal: AbortSignal): Promise<Blob
 
 /**
  * Download tile with retry logic
+ *
+ * @returns Downloaded tile, the unchanged tile for a 304 revalidation, 'deferred' if the
+ * host's circuit breaker opened, or the error on failure
  */
 async function downloadTileWithRetry(
   tile: TileCoordinate,
   retryController: RetryController,
-  abortSignal: AbortSignal
-): Promise<TileBlob | null> {
-  console.log(`[downloadTileWithRetry] Starting: ${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}, url=${tile.url}`);
+  abortSignal: AbortSignal,
+  auth: RequestAuth,
+  validatePayload: PayloadValidator
+): Promise<TileOutcome> {
+  console.log(`[downloadTileWithRetry] Starting: ${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}, url=${auth.redact(tile.url)}`);
 
   const result = await retryController.executeWithRetry(
-    () => downloadTile(tile.url, abortSignal),
+    () => downloadTile(tile, abortSignal, auth, validatePayload),
     tile
   );
 
+  if ('deferred' in result) {
+    console.warn(`[downloadTileWithRetry] DEFERRED: ${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}, host ${getHostKey(tile.url)} is failing`);
+    return 'deferred';
+  }
+
   if (result.success) {
-    console.log(`[downloadTileWithRetry] SUCCESS: ${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}, size=${result.result.size}`);
+    const { blob, validators } = result.result;
+    if (blob === null) {
+      console.log(`[downloadTileWithRetry] UNCHANGED: ${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}`);
+      return { serviceName: tile.serviceName, z: tile.z, x: tile.x, y: tile.y, validators };
+    }
+
+    console.log(`[downloadTileWithRetry] SUCCESS: ${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}, size=${blob.size}`);
     return {
       serviceName: tile.serviceName,
       z: tile.z,
       x: tile.x,
       y: tile.y,
-      blob: result.result,
-      size: result.result.size
+      blob,
+      size: blob.size,
+      validators
     };
   }
 
-  console.error(`[downloadTileWithRetry] FAILED: ${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}, error=`, result.error);
-  return null;
+  console.error(`[downloadTileWithRetry] FAILED: ${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}, error=${result.error.message}`);
+  return result.error;
+}
+
+/**
+ * Outcome of a tile download
+ */
+type TileOutcome = TileBlob | UnchangedTile | 'deferred' | TileError;
+
+/**
+ * Check whether a download outcome is a failure
+ */
+function isTileError(outcome: TileOutcome): outcome is TileError {
+  return typeof outcome === 'object' && 'errorType' in outcome;
+}
+
+/**
+ * Check whether a download outcome is a stored tile confirmed by a 304
+ */
+function isUnchangedTile(outcome: TileOutcome | null): outcome is UnchangedTile {
+  return typeof outcome === 'object' && outcome !== null && !('blob' in outcome) && !('errorType' in outcome);
+}
+
+// ============================================================================
+// RESUME CURSOR
+// ============================================================================
+
+/**
+ * Tile key within a service
+ */
+function tileKey(tile: { z: number; x: number; y: number }): string {
+  return `${tile.z}:${tile.x}:${tile.y}`;
+}
+
+/**
+ * Cursor tracker for resumable downloads
+ *
+ * Tiles get positions per zoom level in walk order; the watermark advances
+ * over contiguous finished positions. Only positions of tiles between
+ * registration and completion are kept.
+ */
+class CursorTracker {
+  private positions = new Map<string, number>();
+  private zooms = new Map<number, { done: number; ahead: Set<number> }>();
+  private failed: DownloadCursor['failed'];
+
+  constructor(cursor?: DownloadCursor) {
+    for (const [z, zoom] of Object.entries(cursor?.byZoom ?? {})) {
+      this.zooms.set(Number(z), { done: zoom.done, ahead: new Set(zoom.ahead) });
+    }
+    this.failed = [...(cursor?.failed ?? [])];
+  }
+
+  /**
+   * Check whether the tile at a position was finished in a previous run
+   */
+  isFinished(z: number, position: number): boolean {
+    const zoom = this.zooms.get(z);
+    return zoom !== undefined && (position < zoom.done || zoom.ahead.has(position));
+  }
+
+  /**
+   * Remember the position of a tile until it completes
+   */
+  register(tile: { z: number; x: number; y: number }, position: number): void {
+    this.positions.set(tileKey(tile), position);
+  }
+
+  complete(tile: { z: number; x: number; y: number }, failed: boolean = false): void {
+    const key = tileKey(tile);
+    const position = this.positions.get(key);
+    if (position === undefined) return;
+    this.positions.delete(key);
+
+    const zoom = this.getZoom(tile.z);
+    zoom.ahead.add(position);
+    while (zoom.ahead.delete(zoom.done)) {
+      zoom.done++;
+    }
+
+    if (failed) {
+      this.failed.push({ z: tile.z, x: tile.x, y: tile.y });
+    }
+  }
+
+  getSnapshot(): DownloadCursor {
+    const byZoom: DownloadCursor['byZoom'] = {};
+    for (const [z, zoom] of this.zooms) {
+      byZoom[z] = { done: zoom.done, ahead: Array.from(zoom.ahead) };
+    }
+    return { byZoom, failed: [...this.failed] };
+  }
+
+  private getZoom(z: number): { done: number; ahead: Set<number> } {
+    let zoom = this.zooms.get(z);
+    if (!zoom) {
+      zoom = { done: 0, ahead: new Set() };
+      this.zooms.set(z, zoom);
+    }
+    return zoom;
+  }
 }
 
 // ============================================================================
@@ -1291,151 +3597,416 @@ async function downloadTileWithRetry(
  * Create async iterator for streaming tile downloads
  */
 async function* createTileIterator(
-  tiles: TileCoordinate[],
+  tileSource: TileSource,
   controller: DownloadController,
   queue: DownloadQueue,
   retryController: RetryController,
   progressTracker: ProgressTracker,
-  failureMonitor: FailureMonitor
+  breakers: HostCircuitBreakers,
+  auth: RequestAuth,
+  validatePayload: PayloadValidator,
+  cursorTracker: CursorTracker,
+  budgetRequest: BudgetRequest | null,
+  events: DownloadEvents,
+  errors: TileError[]
 ): AsyncGenerator<TileBlob, void, undefined> {
-  console.log(`[Iterator] GENERATOR FUNCTION CALLED with ${tiles.length} tiles`);
+  console.log(`[Iterator] GENERATOR FUNCTION CALLED`);
+
+  // Tiles are taken from the source as the queue drains
+  const tiles = tileSource.tiles();
+  let sourceDone = false;
+  const fillQueue = () => {
+    while (!sourceDone && queue.pending < TILE_BUFFER_SIZE) {
+      const next = tiles.next();
+      if (next.done) {
+        sourceDone = true;
+      } else {
+        queue.enqueue(next.value);
+      }
+    }
+  };
 
-  // Add all tiles to queue
-  for (const tile of tiles) {
-    queue.enqueue(tile);
-  }
+  fillQueue();
+  console.log(`[Iterator] Tiles enqueued, queue.pending=${queue.pending}`);
+  progressTracker.setConcurrency(queue.concurrency, queue.concurrencyByHost);
 
-  console.log(`[Iterator] All tiles enqueued, queue.pending=${queue.pending}`);
+  const activeDownloads = new Set<Promise<Exclude<TileOutcome, TileError> | null>>();
 
-  const activeDownloads = new Set<Promise<TileBlob | null>>();
-  const completedDownloads = new Set<Promise<TileBlob | null>>();
-  const errors: TileError[] = [];
-  const failedTiles: TileCoordinate[] = [];
+  const reportError = (error: TileError) => {
+    errors.push(error);
+    events.emit('tileError', error);
+  };
 
   controller.setState(DownloadState.DOWNLOADING);
 
-  while (queue.pending > 0 || activeDownloads.size > 0) {
-    // Handle pause state
-    while (controller.isPaused()) {
-      queue.pause();
-      progressTracker.setState(DownloadState.PAUSED);
-
-      await new Promise<void>(resolve => {
-        const resumeHandler = () => {
-          controller.off('resume', resumeHandler);
-          resolve();
-        };
-        controller.on('resume', resumeHandler);
-      });
+  try {
+    while (!sourceDone || queue.pending > 0 || activeDownloads.size > 0) {
+      // Handle pause state
+      while (controller.isPaused()) {
+        queue.pause();
+        budgetRequest?.cancel();
+        progressTracker.setState(DownloadState.PAUSED);
+
+        // Cancelling a paused download ends the wait as well
+        await new Promise<void>(resolve => {
+          const resumeHandler = () => {
+            controller.off('resume', resumeHandler);
+            controller.off('cancel', resumeHandler);
+            resolve();
+          };
+          controller.on('resume', resumeHandler);
+          controller.on('cancel', resumeHandler);
+        });
 
-      queue.resume();
-      progressTracker.setState(DownloadState.DOWNLOADING);
-    }
+        queue.resume();
+        progressTracker.setState(DownloadState.DOWNLOADING);
+      }
 
-    // Handle cancellation
-    if (controller.isCancelled()) {
-      queue.clear();
-      progressTracker.setState(DownloadState.CANCELLED);
-      return;
-    }
+      // Handle cancellation
+      if (controller.isCancelled()) {
+        queue.clear();
+        progressTracker.setState(DownloadState.CANCELLED);
+        return;
+      }
 
-    // Check failure threshold
-    if (failureMonitor.shouldAbort()) {
-      controller.cancel();
-      progressTracker.setState(DownloadState.FAILED);
-      throw new Error(`Download aborted: failure rate exceeded 25% (${failureMonitor.failureRatio * 100}%)`);
-    }
-
-    // Start new downloads up to concurrency limit
-    if (activeDownloads.size < queue.concurrency && queue.pending > 0) {
-      const tile = await queue.dequeue();
-      if (!tile) break;
-
-      console.log(`[Iterator] Starting download: ${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}, active=${activeDownloads.size}, pending=${queue.pending}`);
-
-      // Capture tile in a closure to avoid variable reuse bug
-      const downloadPromise = ((currentTile) => {
-        return (async () => {
-          // Apply rate limiting before download
-          await queue.acquireRateLimit();
-
-          return await downloadTileWithRetry(currentTile, retryController, controller.getAbortSignal());
-        })()
-          .then(result => {
-            activeDownloads.delete(downloadPromise);
-            console.log(`[Iterator] Download completed (success): ${currentTile.serviceName}:${currentTile.z}:${currentTile.x}:${currentTile.y}, active=${activeDownloads.size}`);
-            return result;
-          })
-          .catch(error => {
-            activeDownloads.delete(downloadPromise);
-            console.error(`Failed to download tile ${currentTile.serviceName}:${currentTile.z}:${currentTile.x}:${currentTile.y}:`, error);
-            return null;
-          });
-      })(tile);
-
-      activeDownloads.add(downloadPromise);
-    }
-
-    console.log("[Iterator] While-Queue")
-
-    // Wait for any download to complete
-    if (activeDownloads.size > 0) {
-      // Filter out already completed promises to avoid re-yielding
-      const pendingDownloads = Array.from(activeDownloads).filter(p => !completedDownloads.has(p));
-
-      if (pendingDownloads.length > 0) {
-        console.log(`[Iterator] Waiting for race with ${pendingDownloads.length} pending downloads (${activeDownloads.size} active, ${completedDownloads.size} completed)`);
-        const completedPromise = await Promise.race(pendingDownloads.map(p => p.then(result => ({ promise: p, result }))));
-
-        // Mark this promise as completed to avoid re-yielding
-        completedDownloads.add(completedPromise.promise);
-
-        if (completedPromise.result) {
-          console.log(`[Iterator] Yielding tile: ${completedPromise.result.serviceName}:${completedPromise.result.z}:${completedPromise.result.x}:${completedPromise.result.y}, size=${completedPromise.result.size}`);
-          progressTracker.recordSuccess(completedPromise.result.size);
-          failureMonitor.recordAttempt(true);
-          yield completedPromise.result;
-          console.log(`[Iterator] Tile yielded successfully, active=${activeDownloads.size}, completed=${completedDownloads.size}`);
-        } else {
-          console.log(`[Iterator] Download failed (null result)`);
-          progressTracker.recordFailure();
-          failureMonitor.recordAttempt(false);
+      // Every host failed repeatedly
+      if (breakers.allDown()) {
+        throw new Error(`Download aborted: all hosts are failing (${breakers.downHosts.join(', ')})`);
+      }
+
+      fillQueue();
+      queue.reroute(tile => tileSource.reroute(tile));
+
+      // Start new downloads while a host has a free connection (and the shared budget a free slot)
+      while (queue.hasAvailable()) {
+        if (budgetRequest) {
+          budgetRequest.request();
+          if (!budgetRequest.isGranted) break;
+          budgetRequest.take();
+        }
+
+        const tile = await queue.dequeue();
+        if (!tile) {
+          budgetRequest?.release();
+          break;
+        }
+
+        console.log(`[Iterator] Starting download: ${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}, active=${activeDownloads.size}, pending=${queue.pending}`);
+
+        // Capture tile in a closure to avoid variable reuse bug
+        const downloadPromise = ((currentTile) => {
+          return (async () => {
+            // Apply rate limiting before download
+            await queue.acquireRateLimit();
+
+            return await downloadTileWithRetry(currentTile, retryController, controller.getAbortSignal(), auth, validatePayload);
+          })()
+            .then(outcome => {
+              queue.release(currentTile);
+              budgetRequest?.release();
+              if (outcome === 'deferred') {
+                // Rerouted to another host on the next pass
+                queue.enqueue(currentTile);
+                return outcome;
+              }
+              if (isTileError(outcome)) {
+                reportError(outcome);
+              }
+              const result = isTileError(outcome) ? null : outcome;
+              if (result) {
+                queue.reportSuccess(currentTile, isUnchangedTile(result) ? 0 : result.size);
+              }
+              progressTracker.recordTileSize(currentTile.z, result && !isUnchangedTile(result) ? result.size : undefined);
+              // Downloaded tiles are finished once the consumer has taken them
+              if (result === null || isUnchangedTile(result)) {
+                cursorTracker.complete(currentTile, result === null);
+              }
+              console.log(`[Iterator] Download completed (success): ${currentTile.serviceName}:${currentTile.z}:${currentTile.x}:${currentTile.y}, active=${activeDownloads.size}`);
+              return result;
+            })
+            .catch(error => {
+              queue.release(currentTile);
+              budgetRequest?.release();
+              progressTracker.recordTileSize(currentTile.z);
+              cursorTracker.complete(currentTile, true);
+              reportError({ ...classifyError(error), tile: currentTile, attempts: 1, timestamp: Date.now() });
+              console.error(`Failed to download tile ${currentTile.serviceName}:${currentTile.z}:${currentTile.x}:${currentTile.y}:`, error);
+              return null;
+            });
+        })(tile);
+
+        activeDownloads.add(downloadPromise);
+      }
+
+      console.log("[Iterator] While-Queue")
+
+      // Wait for any download to complete (or for a budget slot)
+      const slotWaiting = budgetRequest?.waiting;
+
+      // Every host with pending tiles is behind an open circuit breaker: wait for the next probe
+      if (activeDownloads.size === 0 && !slotWaiting && queue.pending > 0 && !queue.hasAvailable()) {
+        const retryAt = breakers.nextRetryAt() ?? Date.now();
+        progressTracker.setCircuitBreakers(breakers.getStatus());
+        await new Promise(resolve => setTimeout(resolve, Math.min(Math.max(0, retryAt - Date.now()), 1000)));
+        continue;
+      }
+
+      if (activeDownloads.size > 0 || slotWaiting) {
+        // Finished downloads leave activeDownloads before they are handled, so none is raced twice
+        const pendingDownloads = Array.from(activeDownloads);
+
+        if (pendingDownloads.length > 0 || slotWaiting) {
+          console.log(`[Iterator] Waiting for race with ${pendingDownloads.length} pending downloads`);
+          const completedPromise = await Promise.race([
+            ...pendingDownloads.map(p => p.then(result => ({ promise: p, result }))),
+            ...(slotWaiting ? [slotWaiting.then(() => null)] : [])
+          ]);
+
+          // A budget slot was granted: start the next download
+          if (!completedPromise) continue;
+
+          // Downloads stay active until handled, so results finished while waiting are not lost
+          activeDownloads.delete(completedPromise.promise);
+
+          if (completedPromise.result === 'deferred') {
+            console.log(`[Iterator] Download deferred, tile requeued`);
+          } else if (isUnchangedTile(completedPromise.result)) {
+            progressTracker.recordUnchanged();
+            events.emit('unchanged', completedPromise.result);
+          } else if (completedPromise.result) {
+            console.log(`[Iterator] Yielding tile: ${completedPromise.result.serviceName}:${completedPromise.result.z}:${completedPromise.result.x}:${completedPromise.result.y}, size=${completedPromise.result.size}`);
+            progressTracker.recordSuccess(completedPromise.result.size);
+            await events.emitTile(completedPromise.result);
+            yield completedPromise.result;
+            cursorTracker.complete(completedPromise.result);
+            console.log(`[Iterator] Tile yielded successfully, active=${activeDownloads.size}`);
+          } else {
+            console.log(`[Iterator] Download failed (null result)`);
+            progressTracker.recordFailure();
+          }
+
+          progressTracker.setConcurrency(queue.concurrency, queue.concurrencyByHost);
+          progressTracker.setCircuitBreakers(breakers.getStatus());
         }
       }
     }
-  }
 
-  controller.setState(DownloadState.COMPLETED);
-  progressTracker.setState(DownloadState.COMPLETED);
+    progressTracker.setState(DownloadState.COMPLETED);
+    controller.setState(DownloadState.COMPLETED);
+  } catch (error) {
+    progressTracker.setState(DownloadState.FAILED);
+    controller.fail();
+    throw error;
+  } finally {
+    // Hand back a budget slot requested but never used
+    budgetRequest?.cancel();
+
+    // The consumer stopped iterating early
+    if (!controller.isFinished()) {
+      progressTracker.setState(DownloadState.CANCELLED);
+      controller.cancel();
+    }
+  }
 }
 
 /**
- * Collect final download statistics
+ * Final download statistics
  */
-async function collectStats(
-  iterator: AsyncIterable<TileBlob>,
+function collectStats(
   progressTracker: ProgressTracker,
   errors: TileError[],
-  failedTiles: TileCoordinate[],
   startTime: number
-): Promise<DownloadStats> {
-  // Wait for iterator to complete
-  for await (const _ of iterator) {
-    // Iterator consumption handled by user
-  }
-
+): DownloadStats {
   const progress = progressTracker.getSnapshot();
   const downloadTime = Date.now() - startTime;
 
   return {
     successful: progress.downloaded,
     failed: progress.failed,
-    successRatio: progress.totalTiles > 0 ? progress.downloaded / progress.totalTiles : 0,
+    unchanged: progress.unchanged,
+    successRatio: progress.totalTiles > 0 ? (progress.downloaded + progress.unchanged) / progress.totalTiles : 0,
     actualSize: progress.downloadedBytes,
     downloadTime,
     averageSpeed: downloadTime > 0 ? progress.downloadedBytes / (downloadTime / 1000) : 0,
-    errors,
-    failedTiles
+    errors: [...errors],
+    failedTiles: errors.map(error => error.tile)
+  };
+}
+
+// ============================================================================
+// TILE SOURCE SETUP
+// ============================================================================
+
+/**
+ * URL template options from the download config
+ */
+function getTemplateOptions(config: TileDownloadConfig): TemplateOptions {
+  return {
+    retina: config.retina,
+    extension: config.extension,
+    variables: config.urlVariables
+  };
+}
+
+/**
+ * Lazy tile source
+ *
+ * Walks the download area in the configured order and skips tiles finished
+ * before the resume point or already stored, one tile at a time, so memory
+ * stays flat regardless of the area size.
+ */
+class TileSource {
+  constructor(
+    private config: TileDownloadConfig,
+    private ranges: TileRange[],
+    private tileScheme: TileScheme,
+    private buildURL: TileURLBuilder,
+    private subdomainRotator: SubdomainRotator,
+    private cursorTracker: CursorTracker,
+    private breakers: HostCircuitBreakers,
+    private viewportRanges?: TileRange[]
+  ) {}
+
+  /**
+   * Count tiles to download per zoom level without building them, yielding to the event loop now and then
+   */
+  async count(): Promise<Map<number, number>> {
+    const counts = new Map<number, number>(this.ranges.map(range => [range.z, 0]));
+    let walked = 0;
+
+    for (const { cell, position } of this.walk()) {
+      if (++walked % 50000 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      if (this.cursorTracker.isFinished(cell.z, position)) continue;
+      if (this.needsDownload(this.toCoordinate(cell))) {
+        counts.set(cell.z, (counts.get(cell.z) ?? 0) + 1);
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Tiles to download, with URLs built on demand
+   */
+  *tiles(): Generator<TileCoordinate> {
+    for (const { cell, position } of this.walk()) {
+      if (this.cursorTracker.isFinished(cell.z, position)) continue;
+
+      const coordinate = this.toCoordinate(cell);
+      this.cursorTracker.register(coordinate, position);
+
+      if (!this.needsDownload(coordinate)) {
+        // Skipped tiles count as finished for the resume cursor
+        this.cursorTracker.complete(coordinate);
+        continue;
+      }
+
+      const validators = this.config.refresh ? getStoredValidators(coordinate, this.config.existingTiles) : undefined;
+
+      yield {
+        ...coordinate,
+        url: this.routeURL(coordinate) ?? this.buildTileURL(coordinate),
+        ...(validators ? { validators } : {})
+      };
+    }
+  }
+
+  /**
+   * Tile with its URL moved to a host that takes requests
+   *
+   * @returns Rerouted tile, or null if no other host is available
+   */
+  reroute(tile: TileCoordinate): TileCoordinate | null {
+    const url = this.routeURL(tile);
+    return url && getHostKey(url) !== getHostKey(tile.url) ? { ...tile, url } : null;
+  }
+
+  /**
+   * URL on the next subdomain whose host's circuit breaker lets requests through
+   */
+  private routeURL(tile: Pick<TileCoordinate, 'z' | 'x' | 'y'>): string | null {
+    for (let i = 0; i < Math.max(1, this.subdomainRotator.size); i++) {
+      const url = this.buildTileURL(tile);
+      if (this.breakers.get(getHostKey(url)).isAvailable()) return url;
+    }
+    return null;
+  }
+
+  private buildTileURL(tile: Pick<TileCoordinate, 'z' | 'x' | 'y'>): string {
+    const subdomain = this.subdomainRotator.hasSubdomains() ? this.subdomainRotator.next() : undefined;
+    return this.buildURL(tile.x, tile.y, tile.z, subdomain);
+  }
+
+  /**
+   * Walk the area, numbering tiles per zoom level in walk order (cursor positions)
+   */
+  private *walk(): Generator<{ cell: GridCell; position: number }> {
+    const positions = new Map<number, number>();
+
+    for (const cell of walkTiles(this.ranges, this.config.order ?? 'row', this.viewportRanges)) {
+      const position = positions.get(cell.z) ?? 0;
+      positions.set(cell.z, position + 1);
+      yield { cell, position };
+    }
+  }
+
+  /**
+   * Refresh runs revalidate existing tiles, or only expired ones with an expiry policy
+   */
+  private needsDownload(tile: Pick<TileCoordinate, 'serviceName' | 'z' | 'x' | 'y'>): boolean {
+    if (this.config.refresh && !this.config.expiry) return true;
+    return !checkTileExists(tile, this.config.existingTiles, this.config.expiry);
+  }
+
+  private toCoordinate(cell: GridCell): Pick<TileCoordinate, 'serviceName' | 'z' | 'x' | 'y'> {
+    return {
+      serviceName: this.config.serviceName,
+      z: cell.z,
+      x: cell.x,
+      y: convertYCoordinate(cell.y, cell.z, this.tileScheme)
+    };
+  }
+}
+
+/**
+ * Resolve CRS, tile grid and URL builder for the configured tile scheme
+ */
+async function resolveTileSource(
+  config: TileDownloadConfig,
+  tileScheme: TileScheme,
+  auth: RequestAuth
+): Promise<{ crs: string; tileGrid: TileGrid; buildURL: TileURLBuilder }> {
+  if (tileScheme === 'wmts') {
+    const { crs, tileGrid, request } = await resolveWMTSSource(config, auth);
+    return {
+      crs,
+      tileGrid,
+      buildURL: (x, y, z, subdomain) => buildWMTSTileURL(request, x, y, z, subdomain)
+    };
+  }
+
+  if (tileScheme === 'wms') {
+    const { crs, tileGrid, request } = await resolveWMSSource(config, auth);
+    return {
+      crs,
+      tileGrid,
+      buildURL: (x, y, z, subdomain) => buildWMSTileURL(request, x, y, z, subdomain)
+    };
+  }
+
+  let crs = config.crs ?? 'EPSG:3857';
+  if (config.capabilitiesUrl) {
+    const crsCaps = await getSupportedCRS(config.capabilitiesUrl, undefined, config);
+    crs = crsCaps.default;
+  }
+
+  return {
+    crs,
+    tileGrid: createTileGrid(crs),
+    buildURL: (x, y, z, subdomain) => expandURLTemplate(config.url, { x, y, z }, getTemplateOptions(config), subdomain)
   };
 }
 
@@ -1443,6 +4014,122 @@ async function collectStats(
 // MAIN DOWNLOAD FUNCTION
 // ============================================================================
 
+/**
+ * Steps shared by downloading and planning: everything up to the lazily walked tile source
+ */
+interface PreparedDownload {
+  tileScheme: TileScheme;
+  auth: RequestAuth;
+  crs: string;
+  buildURL: TileURLBuilder;
+  ranges: TileRange[];
+  subdomainRotator: SubdomainRotator;
+  cursorTracker: CursorTracker;
+  breakers: HostCircuitBreakers;
+  tileSource: TileSource;
+}
+
+/**
+ * Validate the config and set up tile grid, ranges and tile source
+ */
+async function prepareDownload(config: TileDownloadConfig): Promise<PreparedDownload> {
+  const tileScheme = config.tileScheme ?? 'xyz';
+
+  // 1. VALIDATION (WMTS/WMS requests are built from capabilities and options)
+  if (tileScheme === 'xyz' || tileScheme === 'tms') {
+    const urlValidation = validateTileURL(config.url, !!config.subdomains?.length, getTemplateOptions(config));
+    if (!urlValidation.valid) {
+      const problems = [
+        urlValidation.missing.length > 0 && `${urlValidation.missing.join(', ')} placeholders missing`,
+        urlValidation.unknown.length > 0 && `unknown placeholders ${urlValidation.unknown.join(', ')}`,
+        urlValidation.unfilled.length > 0 && `no value for ${urlValidation.unfilled.join(', ')}`
+      ].filter(Boolean);
+      throw new Error(`Invalid tile URL: ${problems.join('; ')}`);
+    }
+
+    if (urlValidation.warnings.length > 0) {
+      console.warn('URL validation warnings:', urlValidation.warnings);
+    }
+  }
+
+  // 2. CRS & TILE GRID SETUP
+  const auth = createRequestAuth(config);
+  const { crs, tileGrid, buildURL } = await resolveTileSource(config, tileScheme, auth);
+
+  // 3. TILE RANGE CALCULATION
+  const ranges = calculateTileRanges(config, tileGrid, crs, tileScheme);
+
+  // 4. SUBDOMAIN ROTATOR
+  const parsed = parseURLTemplate(config.url);
+  const subdomains = parsed.hasSubdomain
+    ? (config.subdomains ?? ['a', 'b', 'c'])
+    : [];
+  const subdomainRotator = new SubdomainRotator(subdomains);
+
+  // 5. TILE SOURCE (walked lazily; finished and existing tiles are skipped per tile, hosts picked by circuit breaker)
+  const cursorTracker = new CursorTracker(config.resumeFrom);
+  const breakers = new HostCircuitBreakers(config.circuitBreaker);
+  const viewportRanges = config.order === 'viewport' && config.viewport
+    ? bboxToTileRanges(config.viewport, config.minZoom, config.maxZoom, tileGrid, crs, tileScheme)
+    : undefined;
+  const tileSource = new TileSource(config, ranges, tileScheme, buildURL, subdomainRotator, cursorTracker, breakers, viewportRanges);
+
+  return { tileScheme, auth, crs, buildURL, ranges, subdomainRotator, cursorTracker, breakers, tileSource };
+}
+
+/**
+ * Tile URLs, one per subdomain, and the hosts that would receive requests (tile servers and capabilities)
+ */
+function getDownloadHosts(
+  config: TileDownloadConfig,
+  { auth, buildURL, ranges, subdomainRotator, tileScheme }: PreparedDownload
+): { tileURLs: string[]; hosts: string[] } {
+  // Tile URLs differ in the subdomain only, so one URL per subdomain covers all tile hosts
+  const firstRange = ranges[0];
+  const subdomains = subdomainRotator.hasSubdomains() ? (config.subdomains ?? ['a', 'b', 'c']) : [undefined];
+  const tileURLs = firstRange
+    ? subdomains.map(subdomain =>
+        buildURL(firstRange.minX, convertYCoordinate(firstRange.minY, firstRange.z, tileScheme), firstRange.z, subdomain))
+    : [];
+
+  const hosts = new Set<string>();
+  for (const url of [...tileURLs, config.capabilitiesUrl]) {
+    if (!url) continue;
+    try {
+      hosts.add(new URL(url).host);
+    } catch {
+      console.warn(`[getDownloadHosts] Cannot parse host of ${auth.redact(url)}`);
+    }
+  }
+
+  return { tileURLs, hosts: Array.from(hosts) };
+}
+
+/**
+ * Check the download against the usage policies of its hosts before any tile is requested
+ *
+ * @throws TileUsagePolicyError if a policy is violated and `usagePolicy` is 'enforce'
+ */
+function checkUsagePolicies(
+  config: TileDownloadConfig,
+  hosts: string[],
+  tilesByZoom: Map<number, number>
+): TileUsageCheck[] {
+  const mode = config.usagePolicy ?? 'enforce';
+  if (mode === 'ignore') return [];
+
+  const checks = checkTileUsagePolicies({ hosts, tilesByZoom, rateLimit: config.rateLimit });
+  const violated = checks.filter(check => check.violations.length > 0);
+  if (violated.length > 0 && mode === 'enforce') {
+    throw new TileUsagePolicyError(violated);
+  }
+  for (const check of violated) {
+    console.warn(`[checkUsagePolicies] ${check.summary}`);
+  }
+
+  return checks;
+}
+
 /**
  * Download tiles from a tile server
  *
@@ -1465,76 +4152,60 @@ async function collectStats(
  *   await storeInIndexedDB(tile);
  * }
  *
- * const stats = await result.stats;
+ * const stats = await result.done;
  * console.log(`Success rate: ${stats.successRatio * 100}%`);
+ *
+ * // Or event-driven
+ * result.on('tile', tile => storeInIndexedDB(tile));
+ * result.on('progress', progress => console.log(progress.percentComplete));
+ * await result.start();
  * ```
  */
 export async function downloadTiles(config: TileDownloadConfig): Promise<TileDownloadResult> {
-  // 1. VALIDATION
-  const urlValidation = validateTileURL(config.url, !!config.subdomains?.length);
-  if (!urlValidation.valid) {
-    throw new Error(`Invalid tile URL: ${urlValidation.missing.join(', ')} placeholders missing`);
-  }
+  const prepared = await prepareDownload(config);
+  const { auth, buildURL, ranges, subdomainRotator, cursorTracker, breakers, tileSource, tileScheme } = prepared;
 
-  if (urlValidation.warnings.length > 0) {
-    console.warn('URL validation warnings:', urlValidation.warnings);
-  }
+  // 6. COUNT TILES TO DOWNLOAD
+  const tilesToDownloadByZoom = await tileSource.count();
+  const totalTiles = Array.from(tilesToDownloadByZoom.values()).reduce((sum, count) => sum + count, 0);
+  console.log(`[downloadTiles] ${totalTiles} tiles to download across ${ranges.length} zoom levels`);
 
-  // 2. CRS & TILE GRID SETUP
-  let crs = config.crs ?? 'EPSG:3857';
-  if (config.capabilitiesUrl) {
-    const crsCaps = await getSupportedCRS(config.capabilitiesUrl);
-    crs = crsCaps.default;
-  }
-
-  const tileScheme = config.tileScheme ?? 'xyz';
-  const tileGrid = createTileGrid(crs, tileScheme);
-
-  // 3. TILE RANGE CALCULATION
-  const ranges = bboxToTileRanges(
-    config.bbox,
-    config.minZoom,
-    config.maxZoom,
-    tileGrid,
-    crs,
-    tileScheme
-  );
-
-  // 4. SUBDOMAIN ROTATOR
-  const parsed = parseURLTemplate(config.url);
-  const subdomains = parsed.hasSubdomain
-    ? (config.subdomains ?? ['a', 'b', 'c'])
-    : [];
-  const subdomainRotator = new SubdomainRotator(subdomains);
-
-  // 5. SIZE ESTIMATION
-  const sizeEstimate = await estimateTileSize(
-    config.url,
-    ranges,
-    subdomainRotator,
-    tileScheme
-  );
-
-  // 6. GENERATE TILE COORDINATES
-  const allTiles: TileCoordinate[] = [];
-  for (const range of ranges) {
-    const tiles = generateTileCoordinates(range, config.serviceName, config.url, subdomainRotator, tileScheme);
-    allTiles.push(...tiles);
-  }
-  console.log(`[downloadTiles] Generated ${allTiles.length} total tiles across ${ranges.length} zoom levels`);
-
-  // 7. DEDUPLICATION
-  const tilesToDownload = filterExistingTiles(allTiles, config.existingTiles);
-  const totalTiles = tilesToDownload.length;
-  console.log(`[downloadTiles] After deduplication: ${totalTiles} tiles to download (${allTiles.length - totalTiles} already exist)`);
+  // Usage policies of public tile servers: reject forbidden downloads before the first request
+  checkUsagePolicies(config, getDownloadHosts(config, prepared).hosts, tilesToDownloadByZoom);
 
   if (totalTiles === 0) {
     // All tiles already exist
+    const events = new DownloadEvents();
+    const stats: DownloadStats = {
+      successful: 0,
+      failed: 0,
+      unchanged: 0,
+      successRatio: 1,
+      actualSize: 0,
+      downloadTime: 0,
+      averageSpeed: 0,
+      errors: [],
+      failedTiles: []
+    };
+    const tiles = (async function* (): AsyncGenerator<TileBlob, void, undefined> {
+      events.emit('complete', stats);
+    })();
+
     return {
       totalTiles: 0,
       estimatedSize: 0,
+      sizeEstimate: { low: 0, expected: 0, high: 0, byZoom: new Map() },
+      storage: null,
       tilesByZoom: new Map(),
-      tiles: (async function* () {})(),
+      tiles,
+      start: async () => {
+        for await (const _ of tiles) {
+          // Nothing to download
+        }
+        return stats;
+      },
+      on: (type, listener) => events.on(type, listener),
+      off: (type, listener) => events.off(type, listener),
       pause: () => {},
       resume: () => {},
       cancel: () => {},
@@ -1542,28 +4213,42 @@ export async function downloadTiles(config: TileDownloadConfig): Promise<TileDow
         state: DownloadState.COMPLETED,
         downloaded: 0,
         failed: 0,
+        unchanged: 0,
         pending: 0,
         retrying: 0,
         totalTiles: 0,
         downloadedBytes: 0,
         estimatedBytes: 0,
+        estimatedBytesLow: 0,
+        estimatedBytesHigh: 0,
         percentComplete: 1,
         currentSpeed: 0,
-        eta: 0
+        eta: 0,
+        concurrency: 0,
+        concurrencyByHost: {},
+        circuitBreakers: {}
       },
-      stats: Promise.resolve({
-        successful: 0,
-        failed: 0,
-        successRatio: 1,
-        actualSize: 0,
-        downloadTime: 0,
-        averageSpeed: 0,
-        errors: [],
-        failedTiles: []
-      })
+      cursor: cursorTracker.getSnapshot(),
+      done: Promise.resolve(stats),
+      stats: Promise.resolve(stats)
     };
   }
 
+  // 7. SIZE ESTIMATION (sampled before the download, refined while it runs)
+  const samplesByZoom = await sampleTileSizes(buildURL, ranges, subdomainRotator, tileScheme, auth);
+  const sizeEstimator = new SizeEstimator(samplesByZoom, tilesToDownloadByZoom);
+  const sizeEstimate = sizeEstimator.getEstimate();
+
+  // Storage pre-flight: refuse downloads that cannot fit before any tile is fetched
+  const storageQuota = config.storageQuota ?? 'refuse';
+  const storage = storageQuota === 'ignore' ? null : await checkStorageQuota(sizeEstimate);
+  if (storage && storage.status === 'insufficient' && storageQuota === 'refuse') {
+    throw new StorageQuotaError(storage);
+  }
+  if (storage && (storage.status !== 'ok' || !storage.persisted)) {
+    console.warn(`[downloadTiles] ${storage.summary}`);
+  }
+
   // 8. CALCULATE TILES BY ZOOM
   const tilesByZoom = new Map<number, number>();
   for (const range of ranges) {
@@ -1572,70 +4257,254 @@ export async function downloadTiles(config: TileDownloadConfig): Promise<TileDow
 
   // 9. INITIALIZE CONTROLLERS
   const downloadController = new DownloadController();
-  const progressTracker = new ProgressTracker(totalTiles, sizeEstimate.estimatedSize);
-  const failureMonitor = new FailureMonitor(0.25); // 25% threshold
+  const maxHostConcurrency = config.http2 ? HTTP2_MAX_HOST_CONCURRENCY : HTTP1_MAX_HOST_CONCURRENCY;
+  const queue = new DownloadQueue(
+    Math.min(config.concurrency ?? HTTP1_MAX_HOST_CONCURRENCY, maxHostConcurrency),
+    breakers,
+    config.rateLimit,
+    config.bandwidthLimit,
+    downloadController.getAbortSignal()
+  );
+  const events = new DownloadEvents();
+  const progressTracker = new ProgressTracker(
+    totalTiles,
+    sizeEstimator,
+    progress => events.emit('progress', progress),
+    config.progressInterval ?? 1000
+  );
   const retryController = new RetryController(
     config.retries ?? 5,
-    config.retryBaseDelay ?? 1000
-  );
-  const queue = new DownloadQueue(
-    Math.min(config.concurrency ?? 6, 6),
-    config.rateLimit
+    config.retryBaseDelay ?? 1000,
+    config.maxRetryAfter ?? 60000,
+    queue,
+    downloadController.getAbortSignal()
   );
 
-  // 10. CREATE ITERATOR
+  // 10. EVENTS & DONE PROMISE (settled by the state change that ends the download)
   const errors: TileError[] = [];
-  const failedTiles: TileCoordinate[] = [];
   const startTime = Date.now();
 
+  let resolveDone: (stats: DownloadStats) => void = () => {};
+  const done = new Promise<DownloadStats>(resolve => {
+    resolveDone = resolve;
+  });
+
+  downloadController.on('stateChange', () => {
+    const state = downloadController.getState();
+    events.emit('stateChange', state);
+
+    if (downloadController.isFinished()) {
+      const stats = collectStats(progressTracker, errors, startTime);
+      resolveDone(stats);
+      if (state === DownloadState.COMPLETED) {
+        events.emit('complete', stats);
+      }
+    }
+  });
+
+  // 11. CREATE ITERATOR
   const iterator = createTileIterator(
-    tilesToDownload,
+    tileSource,
     downloadController,
     queue,
     retryController,
     progressTracker,
-    failureMonitor
+    breakers,
+    auth,
+    blob => validateTilePayload(blob, config.validation, config.tileType),
+    cursorTracker,
+    config.budget
+      ? new BudgetRequest(
+          config.budget,
+          typeof config.priority === 'function' ? config.priority : () => (config.priority as number | undefined) ?? 0
+        )
+      : null,
+    events,
+    errors
   );
 
-  // 11. STATS PROMISE (will resolve when download completes)
-  // Note: We don't consume the iterator here - that's the caller's responsibility
-  // We just wait for the download to complete and return stats
-  const statsPromise = new Promise<DownloadStats>((resolve) => {
-    // Listen for completion events
-    const checkCompletion = setInterval(() => {
-      const state = downloadController.getState();
-      if (state === DownloadState.COMPLETED || state === DownloadState.CANCELLED || state === DownloadState.FAILED) {
-        clearInterval(checkCompletion);
-
-        const progress = progressTracker.getSnapshot();
-        const downloadTime = Date.now() - startTime;
-
-        resolve({
-          successful: progress.downloaded,
-          failed: progress.failed,
-          successRatio: progress.totalTiles > 0 ? progress.downloaded / progress.totalTiles : 0,
-          actualSize: progress.downloadedBytes,
-          downloadTime,
-          averageSpeed: downloadTime > 0 ? progress.downloadedBytes / (downloadTime / 1000) : 0,
-          errors,
-          failedTiles
-        });
-      }
-    }, 100);
-  });
-
   // 12. RETURN RESULT
   return {
     totalTiles,
-    estimatedSize: sizeEstimate.estimatedSize,
+    estimatedSize: sizeEstimate.expected,
+    sizeEstimate,
+    storage,
     tilesByZoom,
     tiles: iterator,
+    start: async () => {
+      for await (const _ of iterator) {
+        // Tiles are delivered to `tile` listeners
+      }
+      return done;
+    },
+    on: (type, listener) => events.on(type, listener),
+    off: (type, listener) => events.off(type, listener),
     pause: () => downloadController.pause(),
     resume: () => downloadController.resume(),
     cancel: () => downloadController.cancel(),
     get progress() {
       return progressTracker.getSnapshot();
     },
-    stats: statsPromise
+    get cursor() {
+      return cursorTracker.getSnapshot();
+    },
+    done,
+    stats: done
+  };
+}
+
+// ============================================================================
+// DOWNLOAD PLANNING
+// ============================================================================
+
+/**
+ * Plan a download without downloading it
+ *
+ * Runs the same validation, range calculation, stored-tile and usage policy
+ * checks as {@link downloadTiles}. Only capabilities (WMTS/WMS or
+ * `capabilitiesUrl`) and, with `sampleSizes`, a few sample tiles for the size
+ * estimate are fetched.
+ *
+ * @param config - Download configuration
+ * @param options - Planning options
+ * @returns Download plan
+ * @throws TileUsagePolicyError if the download violates the usage policy of a tile server
+ *
+ * @example
+ * ```typescript
+ * const plan = await planDownload({ serviceName: 'osm', url, bbox, minZoom: 10, maxZoom: 16 });
+ * console.log(`${plan.toDownload} tiles, ${plan.size.low}–${plan.size.high} bytes from ${plan.hosts.join(', ')}`);
+ * const json = exportDownloadPlan(plan);
+ * ```
+ */
+export async function planDownload(config: TileDownloadConfig, options: PlanOptions = {}): Promise<DownloadPlan> {
+  const prepared = await prepareDownload(config);
+  const { auth, crs, buildURL, ranges, subdomainRotator, tileSource, tileScheme } = prepared;
+
+  const tilesToDownloadByZoom = await tileSource.count();
+  const toDownload = Array.from(tilesToDownloadByZoom.values()).reduce((sum, count) => sum + count, 0);
+
+  const { tileURLs, hosts } = getDownloadHosts(config, prepared);
+  const usagePolicies = checkUsagePolicies(config, hosts, tilesToDownloadByZoom);
+
+  const samplesByZoom = toDownload > 0 && options.sampleSizes
+    ? await sampleTileSizes(buildURL, ranges, subdomainRotator, tileScheme, auth)
+    : new Map<number, number[]>();
+  const sizeEstimate = new SizeEstimator(samplesByZoom, tilesToDownloadByZoom).getEstimate();
+
+  const zooms = ranges.map((range): DownloadPlanZoom => {
+    const zoomToDownload = tilesToDownloadByZoom.get(range.z) ?? 0;
+    const zoomSize = sizeEstimate.byZoom.get(range.z);
+    return {
+      z: range.z,
+      minX: range.minX,
+      maxX: range.maxX,
+      minY: range.minY,
+      maxY: range.maxY,
+      tiles: range.count,
+      stored: range.count - zoomToDownload,
+      toDownload: zoomToDownload,
+      size: { low: zoomSize?.low ?? 0, expected: zoomSize?.expected ?? 0, high: zoomSize?.high ?? 0 },
+      samples: samplesByZoom.get(range.z)?.length ?? 0
+    };
+  });
+
+  const storage = config.storageQuota === 'ignore' ? null : await checkStorageQuota(sizeEstimate);
+  const totalTiles = ranges.reduce((sum, range) => sum + range.count, 0);
+
+  return {
+    serviceName: config.serviceName,
+    attribution: config.attribution ?? null,
+    exampleUrl: tileURLs[0] ? auth.redact(tileURLs[0]) : '',
+    crs,
+    tileScheme,
+    order: config.order ?? 'row',
+    minZoom: config.minZoom,
+    maxZoom: config.maxZoom,
+    zooms,
+    totalTiles,
+    stored: totalTiles - toDownload,
+    toDownload,
+    size: { low: sizeEstimate.low, expected: sizeEstimate.expected, high: sizeEstimate.high },
+    hosts,
+    storage,
+    usagePolicies,
+    createdAt: new Date().toISOString()
   };
 }
+
+/**
+ * Export a download plan as JSON for review or sharing
+ */
+export function exportDownloadPlan(plan: DownloadPlan): string {
+  return JSON.stringify(plan, null, 2);
+}
+
+// ============================================================================
+// FAILED TILE RETRY
+// ============================================================================
+
+/**
+ * Strip tile URLs from download errors so they can be persisted
+ */
+export function toTileFailures(errors: TileError[]): TileFailure[] {
+  return errors.map(({ tile, ...error }) => ({ ...error, z: tile.z, x: tile.x, y: tile.y }));
+}
+
+/**
+ * Select failures to retry
+ */
+export function filterTileFailures(failures: TileFailure[], filter: TileFailureFilter = {}): TileFailure[] {
+  return failures.filter(failure =>
+    (!filter.errorTypes || filter.errorTypes.includes(failure.errorType)) &&
+    (!filter.retryableOnly || failure.retryable) &&
+    !(failure.httpStatus !== undefined && filter.excludeStatus?.includes(failure.httpStatus))
+  );
+}
+
+/**
+ * Config for a download of just the selected failed tiles of an earlier run
+ *
+ * @param config - Config of the earlier run
+ * @param failures - Its failures (see {@link toTileFailures})
+ * @param filter - Which failures to retry
+ */
+export function createRetryConfig(
+  config: TileDownloadConfig,
+  failures: TileFailure[],
+  filter: TileFailureFilter = {}
+): TileDownloadConfig {
+  const tiles = filterTileFailures(failures, filter).map(({ z, x, y }) => ({ z, x, y }));
+  const minZoom = tiles.reduce((min, tile) => Math.min(min, tile.z), Infinity);
+  const maxZoom = tiles.reduce((max, tile) => Math.max(max, tile.z), -Infinity);
+
+  return {
+    ...config,
+    bbox: undefined,
+    area: undefined,
+    corridor: undefined,
+    viewport: undefined,
+    order: config.order === 'viewport' ? 'zoom' : config.order,
+    resumeFrom: undefined,
+    tiles,
+    minZoom: tiles.length > 0 ? minZoom : config.minZoom,
+    maxZoom: tiles.length > 0 ? maxZoom : config.maxZoom
+  };
+}
+
+/**
+ * Download the selected failed tiles of an earlier run again
+ *
+ * @example
+ * ```typescript
+ * const stats = await result.done;
+ * const retry = await retryFailedTiles(config, toTileFailures(stats.errors), { excludeStatus: [404] });
+ * ```
+ */
+export async function retryFailedTiles(
+  config: TileDownloadConfig,
+  failures: TileFailure[],
+  filter: TileFailureFilter = {}
+): Promise<TileDownloadResult> {
+  return downloadTiles(createRetryConfig(config, failures, filter));
+}
@@ -0,0 +1,56 @@
+/**
+ * Tile Expiry
+ *
+ * Expiry policies of tile services and the age check of stored tiles, shared
+ * by the downloader and the tile storage without loading either.
+ *
+ * @module tileExpiry
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Tile expiry policy of a service
+ */
+export interface ExpiryPolicy {
+  /** Maximum tile age in ms */
+  maxAge: number;
+
+  /** Prefer the max-age of the stored Cache-Control header when present (default: false) */
+  useCacheControl?: boolean;
+}
+
+/**
+ * Storage time and caching header of a stored tile
+ */
+export interface TileAge {
+  /** Time the tile was stored (ms since epoch) */
+  timestamp: number;
+
+  /** Cache-Control header of the response */
+  cacheControl?: string;
+}
+
+// ============================================================================
+// EXPIRY CHECK
+// ============================================================================
+
+/**
+ * Check whether a stored tile is older than the policy allows
+ */
+export function isTileExpired(
+  entry: TileAge,
+  policy: ExpiryPolicy,
+  now: number = Date.now()
+): boolean {
+  let maxAge = policy.maxAge;
+
+  if (policy.useCacheControl && entry.cacheControl) {
+    const match = entry.cacheControl.match(/max-age=(\d+)/i);
+    if (match) maxAge = Number(match[1]) * 1000;
+  }
+
+  return now - entry.timestamp > maxAge;
+}
@@ -0,0 +1,234 @@
+/**
+ * Tile Usage Policies
+ *
+ * Registry of the usage policies of public tile servers, matched by host
+ * pattern, and the check of a planned download against them, so downloads
+ * that a server's policy forbids are rejected before any tile is requested.
+ *
+ * @module tileUsagePolicy
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Usage policy of a tile server
+ */
+export interface TileUsagePolicy {
+  /** Display name, e.g. 'OpenStreetMap tile servers' */
+  name: string;
+
+  /** Host patterns; '*' matches within one host label, e.g. '*.tile.openstreetmap.org' */
+  hosts: string[];
+
+  /** Downloading for offline use is not allowed at all */
+  bulkDownloadForbidden?: boolean;
+
+  /** Maximum tiles per download */
+  maxTiles?: number;
+
+  /** Lowest zoom level counted towards `maxTiles` (default: all zoom levels) */
+  maxTilesFromZoom?: number;
+
+  /** Highest zoom level that may be downloaded */
+  maxZoom?: number;
+
+  /** Downloads must set a `rateLimit` of at most this many tiles per second */
+  maxRateLimit?: number;
+
+  /** Link to the policy text */
+  url?: string;
+}
+
+/**
+ * What to do when a download violates a usage policy: throw, only log, or skip the check
+ */
+export type TileUsagePolicyMode = 'enforce' | 'warn' | 'ignore';
+
+/**
+ * Planned download as seen by the policy check
+ */
+export interface TileUsageRequest {
+  /** Hosts that would receive requests */
+  hosts: string[];
+
+  /** Tiles to download per zoom level */
+  tilesByZoom: Map<number, number>;
+
+  /** Rate limit in tiles per second */
+  rateLimit?: number;
+}
+
+/**
+ * Result of checking a download against one policy
+ */
+export interface TileUsageCheck {
+  policy: TileUsagePolicy;
+
+  /** Hosts of the download the policy applies to */
+  hosts: string[];
+
+  /** Violated rules, one sentence each; empty if the download is allowed */
+  violations: string[];
+
+  /** Explanation for error messages and UIs */
+  summary: string;
+}
+
+/**
+ * Download rejected because it violates the usage policy of a tile server
+ */
+export class TileUsagePolicyError extends Error {
+  constructor(public readonly checks: TileUsageCheck[]) {
+    super(checks.map(check => check.summary).join(' '));
+    this.name = 'TileUsagePolicyError';
+  }
+}
+
+// ============================================================================
+// POLICY REGISTRY
+// ============================================================================
+
+const policies: TileUsagePolicy[] = [
+  {
+    name: 'OpenStreetMap tile servers',
+    hosts: ['tile.openstreetmap.org', '*.tile.openstreetmap.org'],
+    // "Downloading an area of over 250 tiles at zoom level 13 or higher for offline or later usage is forbidden"
+    maxTiles: 250,
+    maxTilesFromZoom: 13,
+    url: 'https://operations.osmfoundation.org/policies/tiles/'
+  },
+  {
+    name: 'Google Maps tiles',
+    hosts: ['mt*.google.com', 'khm*.google.com', 'mts*.google.com'],
+    bulkDownloadForbidden: true,
+    url: 'https://cloud.google.com/maps-platform/terms'
+  }
+];
+
+/**
+ * Add a usage policy; it takes precedence over policies registered before for the same hosts
+ *
+ * @example
+ * ```typescript
+ * registerTileUsagePolicy({
+ *   name: 'Example tiles',
+ *   hosts: ['tiles.example.com'],
+ *   maxZoom: 16,
+ *   maxRateLimit: 10
+ * });
+ * ```
+ */
+export function registerTileUsagePolicy(policy: TileUsagePolicy): void {
+  policies.unshift(policy);
+}
+
+/**
+ * Remove a usage policy by name
+ */
+export function unregisterTileUsagePolicy(name: string): void {
+  const index = policies.findIndex(policy => policy.name === name);
+  if (index >= 0) {
+    policies.splice(index, 1);
+  }
+}
+
+/**
+ * Check a host against a host pattern
+ */
+function matchesHost(pattern: string, host: string): boolean {
+  const source = pattern
+    .toLowerCase()
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[^.]*');
+  return new RegExp(`^${source}$`).test(host.toLowerCase().replace(/:\d+$/, ''));
+}
+
+/**
+ * Find the usage policy of a host
+ *
+ * @returns Policy, or null if none is registered for the host
+ */
+export function findTileUsagePolicy(host: string): TileUsagePolicy | null {
+  return policies.find(policy => policy.hosts.some(pattern => matchesHost(pattern, host))) ?? null;
+}
+
+// ============================================================================
+// POLICY CHECK
+// ============================================================================
+
+/**
+ * Check a planned download against the usage policies of its hosts
+ *
+ * @param request - Hosts, tile counts and rate limit of the download
+ * @returns One check per policy that applies, with violations if the download is not allowed
+ */
+export function checkTileUsagePolicies(request: TileUsageRequest): TileUsageCheck[] {
+  const hostsByPolicy = new Map<TileUsagePolicy, string[]>();
+  for (const host of request.hosts) {
+    const policy = findTileUsagePolicy(host);
+    if (policy) {
+      hostsByPolicy.set(policy, [...(hostsByPolicy.get(policy) ?? []), host]);
+    }
+  }
+
+  return Array.from(hostsByPolicy, ([policy, hosts]) => {
+    const violations = findViolations(policy, request);
+    const lines = [`${policy.name} (${hosts.join(', ')}):`];
+
+    if (violations.length > 0) {
+      lines.push(...violations);
+      if (policy.url) {
+        lines.push(`See ${policy.url}.`);
+      }
+      if (policy.bulkDownloadForbidden) {
+        lines.push('Use a tile provider that permits offline downloads or your own tile server.');
+      }
+    } else {
+      lines.push('the download complies with the usage policy.');
+    }
+
+    return { policy, hosts, violations, summary: lines.join(' ') };
+  });
+}
+
+/**
+ * Rules of a policy that a download breaks
+ */
+function findViolations(policy: TileUsagePolicy, request: TileUsageRequest): string[] {
+  const violations: string[] = [];
+  const zooms = Array.from(request.tilesByZoom).filter(([, count]) => count > 0).map(([z]) => z);
+
+  // Nothing would be requested
+  if (zooms.length === 0) return violations;
+
+  if (policy.bulkDownloadForbidden) {
+    violations.push('Downloading tiles for offline use is forbidden.');
+  }
+
+  if (policy.maxTiles !== undefined) {
+    const fromZoom = policy.maxTilesFromZoom ?? 0;
+    let tiles = 0;
+    for (const [z, count] of request.tilesByZoom) {
+      if (z >= fromZoom) tiles += count;
+    }
+
+    if (tiles > policy.maxTiles) {
+      const scope = fromZoom > 0 ? ` at zoom ${fromZoom} and above` : '';
+      violations.push(`The download has ${tiles.toLocaleString('en')} tiles${scope}, at most ${policy.maxTiles.toLocaleString('en')} are allowed.`);
+    }
+  }
+
+  if (policy.maxZoom !== undefined && zooms.some(z => z > policy.maxZoom!)) {
+    violations.push(`Zoom levels above ${policy.maxZoom} may not be downloaded (requested up to ${Math.max(...zooms)}).`);
+  }
+
+  if (policy.maxRateLimit !== undefined && (request.rateLimit === undefined || request.rateLimit > policy.maxRateLimit)) {
+    const requested = request.rateLimit === undefined ? 'none is set' : `${request.rateLimit} is set`;
+    violations.push(`Requests must be limited to ${policy.maxRateLimit} tiles per second with rateLimit (${requested}).`);
+  }
+
+  return violations;
+}
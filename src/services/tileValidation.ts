@@ -0,0 +1,290 @@
+/**
+ * Tile Payload Validation
+ *
+ * Checks downloaded tile data for both tile downloaders: the image format is
+ * sniffed from the magic bytes instead of trusting Content-Type, truncated
+ * images are detected from their end markers, and optionally images are
+ * decoded and compared against known "tile not available" placeholders.
+ * Mapbox Vector Tiles are un-gzipped and checked for a complete protobuf
+ * structure.
+ *
+ * @module tileValidation
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Tile payload type: raster images or Mapbox Vector Tiles (MVT/PBF)
+ */
+export type TileType = 'raster' | 'vector';
+
+/**
+ * Content type of stored vector tiles
+ */
+export const VECTOR_TILE_CONTENT_TYPE = 'application/x-protobuf';
+
+/**
+ * Validation options of a tile service
+ */
+export interface TileValidationOptions {
+  /** Decode each image to catch corrupt data (default: false, needs createImageBitmap) */
+  decode?: boolean;
+
+  /** SHA-256 hashes (hex) of the service's placeholder images, e.g. "map data not yet available" */
+  placeholderHashes?: string[];
+}
+
+/**
+ * Reason a tile payload was rejected
+ */
+export type TilePayloadIssue = 'not-an-image' | 'not-a-vector-tile' | 'truncated' | 'undecodable' | 'placeholder';
+
+/**
+ * Invalid tile payload
+ */
+export class TilePayloadError extends Error {
+  constructor(
+    public readonly issue: TilePayloadIssue,
+    message: string
+  ) {
+    super(message);
+    this.name = 'TilePayloadError';
+  }
+
+  /** Broken transfers may succeed on retry; wrong content will not */
+  get retryable(): boolean {
+    return this.issue === 'truncated' || this.issue === 'undecodable';
+  }
+}
+
+// ============================================================================
+// MIME SNIFFING
+// ============================================================================
+
+/**
+ * Check bytes at an offset
+ */
+function startsWith(bytes: Uint8Array, signature: number[], offset: number = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+/**
+ * Detect the image type from the magic bytes
+ *
+ * @returns MIME type, or null if the data is not a known image format
+ */
+export function sniffImageType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+  if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+  if (startsWith(bytes, ascii('ftypavif'), 4) || startsWith(bytes, ascii('ftypavis'), 4)) return 'image/avif';
+  return null;
+}
+
+/**
+ * Describe non-image data for error messages (HTML error pages, JSON errors)
+ */
+function describePayload(bytes: Uint8Array): string {
+  const head = new TextDecoder().decode(bytes.subarray(0, 64)).trimStart().toLowerCase();
+  if (head.startsWith('<!doctype html') || head.startsWith('<html')) return 'an HTML page';
+  if (head.startsWith('<')) return 'XML';
+  if (head.startsWith('{') || head.startsWith('[')) return 'JSON';
+  if (sniffImageType(bytes)) return 'an image';
+  return 'not a known tile format';
+}
+
+/**
+ * Check the end marker of an image
+ */
+function isComplete(bytes: Uint8Array, type: string): boolean {
+  const end = bytes.length;
+
+  switch (type) {
+    case 'image/png':
+      // IEND chunk with its fixed CRC
+      return startsWith(bytes, [0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82], end - 8);
+    case 'image/jpeg':
+      // EOI marker, some encoders pad with zero bytes
+      for (let i = end - 1; i > 1; i--) {
+        if (bytes[i] !== 0x00) return bytes[i] === 0xd9 && bytes[i - 1] === 0xff;
+      }
+      return false;
+    case 'image/gif':
+      return bytes[end - 1] === 0x3b;
+    case 'image/webp': {
+      // RIFF size covers everything after the first 8 bytes
+      const size = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(4, true);
+      return size + 8 <= end;
+    }
+    default:
+      return true;
+  }
+}
+
+// ============================================================================
+// VECTOR TILES
+// ============================================================================
+
+/**
+ * Check for the gzip magic bytes
+ */
+function isGzip(bytes: Uint8Array): boolean {
+  return startsWith(bytes, [0x1f, 0x8b]);
+}
+
+/**
+ * Decompress gzip data (vector tiles are often served gzipped without Content-Encoding)
+ */
+async function gunzip(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Walk the top-level protobuf fields of a vector tile
+ *
+ * A tile consists of `layers` fields (number 3, length-delimited); the walk
+ * must end exactly at the end of the data. An empty tile is valid.
+ *
+ * @returns 'ok', 'invalid' (not a vector tile) or 'truncated'
+ */
+function checkVectorTile(bytes: Uint8Array): 'ok' | 'invalid' | 'truncated' {
+  let position = 0;
+
+  const readVarint = (): number | null => {
+    let value = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = bytes[position++];
+      if (byte === undefined) return null;
+      value += (byte & 0x7f) * Math.pow(2, shift);
+      if (byte < 0x80) return value;
+    }
+    return null;
+  };
+
+  while (position < bytes.length) {
+    const tag = readVarint();
+    if (tag === null) return 'truncated';
+
+    const field = Math.floor(tag / 8);
+    const wireType = tag & 7;
+    if (field !== 3 || wireType !== 2) return 'invalid';
+
+    const length = readVarint();
+    if (length === null) return 'truncated';
+    position += length;
+  }
+
+  return position === bytes.length ? 'ok' : 'truncated';
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * SHA-256 of tile data as hex string
+ */
+export async function hashTileData(data: Blob | BufferSource): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Validate a downloaded tile
+ *
+ * Mislabelled images (e.g. served as application/octet-stream) are accepted
+ * and relabelled with the sniffed type. Vector tiles are stored un-gzipped
+ * as {@link VECTOR_TILE_CONTENT_TYPE}.
+ *
+ * @param blob - Response body
+ * @param options - Validation options of the service
+ * @param tileType - Expected payload type (default: 'raster')
+ * @returns The tile blob, with the sniffed MIME type
+ * @throws TilePayloadError if the payload is not a complete tile or a known placeholder
+ */
+export async function validateTilePayload(
+  blob: Blob,
+  options: TileValidationOptions = {},
+  tileType: TileType = 'raster'
+): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  if (tileType === 'vector') {
+    return validateVectorTile(bytes, blob.type, options);
+  }
+
+  const type = sniffImageType(bytes);
+  if (!type) {
+    throw new TilePayloadError('not-an-image', `Response is ${describePayload(bytes)} (Content-Type: ${blob.type || 'none'})`);
+  }
+
+  if (!isComplete(bytes, type)) {
+    throw new TilePayloadError('truncated', `Truncated ${type} (${bytes.length} bytes)`);
+  }
+
+  if (options.placeholderHashes && options.placeholderHashes.length > 0) {
+    const hash = await hashTileData(bytes);
+    if (options.placeholderHashes.includes(hash)) {
+      throw new TilePayloadError('placeholder', `Placeholder tile (sha256 ${hash.slice(0, 12)})`);
+    }
+  }
+
+  const tile = blob.type === type ? blob : new Blob([bytes], { type });
+
+  if (options.decode && typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(tile);
+      bitmap.close();
+    } catch {
+      throw new TilePayloadError('undecodable', `Cannot decode ${type}`);
+    }
+  }
+
+  return tile;
+}
+
+/**
+ * Validate a vector tile payload
+ */
+async function validateVectorTile(
+  bytes: Uint8Array<ArrayBuffer>,
+  contentType: string,
+  options: TileValidationOptions
+): Promise<Blob> {
+  let data = bytes;
+  if (isGzip(bytes)) {
+    try {
+      data = await gunzip(bytes);
+    } catch {
+      throw new TilePayloadError('truncated', `Truncated gzip data (${bytes.length} bytes)`);
+    }
+  }
+
+  const check = checkVectorTile(data);
+  if (check === 'invalid') {
+    throw new TilePayloadError('not-a-vector-tile', `Response is ${describePayload(data)} (Content-Type: ${contentType || 'none'})`);
+  }
+  if (check === 'truncated') {
+    throw new TilePayloadError('truncated', `Truncated vector tile (${data.length} bytes)`);
+  }
+
+  if (options.placeholderHashes && options.placeholderHashes.length > 0) {
+    const hash = await hashTileData(data);
+    if (options.placeholderHashes.includes(hash)) {
+      throw new TilePayloadError('placeholder', `Placeholder tile (sha256 ${hash.slice(0, 12)})`);
+    }
+  }
+
+  return new Blob([data], { type: VECTOR_TILE_CONTENT_TYPE });
+}
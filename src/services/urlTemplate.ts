@@ -0,0 +1,254 @@
+/**
+ * Tile URL Template Engine
+ *
+ * Expands tile URL templates for both tile downloaders. Supports {x}, {y}, {z},
+ * {s} subdomains, {-y} (inverted TMS row), {q} Bing-style quadkeys, {r} retina
+ * suffix, {ext} file extension and user-defined variables such as {apikey}.
+ * Placeholder names are matched case-insensitively.
+ *
+ * @module urlTemplate
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Template options shared by all tiles of a source
+ */
+export interface TemplateOptions {
+  /** Fill {r} with '@2x' for high-DPI tiles (default: false, {r} becomes '') */
+  retina?: boolean;
+
+  /** Value for {ext}, e.g. 'png' or 'jpg' */
+  extension?: string;
+
+  /** User-defined placeholder values, e.g. { apikey: '...', layer: 'streets' } */
+  variables?: Record<string, string>;
+}
+
+/**
+ * Parsed URL template structure
+ */
+export interface ParsedTemplate {
+  template: string;
+
+  /** Placeholder names (lowercase, without braces) in order of first appearance */
+  placeholders: string[];
+
+  hasSubdomain: boolean;
+}
+
+/**
+ * Placeholder check result
+ */
+export interface TemplateCheck {
+  placeholders: string[];
+
+  /** Required coordinate placeholders that are absent */
+  missing: string[];
+
+  /** Placeholders that are neither built in nor defined as variables */
+  unknown: string[];
+
+  /** Known placeholders without a value (e.g. {ext} without an extension) */
+  unfilled: string[];
+}
+
+// ============================================================================
+// PLACEHOLDERS
+// ============================================================================
+
+/**
+ * Placeholders handled by the engine itself
+ */
+export const BUILTIN_PLACEHOLDERS = ['x', 'y', '-y', 'z', 's', 'q', 'r', 'ext'];
+
+const PLACEHOLDER_PATTERN = /\{([\w-]+)\}/g;
+
+/**
+ * Parse URL template and identify placeholders
+ */
+export function parseURLTemplate(url: string): ParsedTemplate {
+  const placeholders: string[] = [];
+
+  for (const match of url.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = (match[1] as string).toLowerCase();
+    if (!placeholders.includes(name)) {
+      placeholders.push(name);
+    }
+  }
+
+  return {
+    template: url,
+    placeholders,
+    hasSubdomain: placeholders.includes('s')
+  };
+}
+
+/**
+ * Convert tile coordinates to a Bing Maps quadkey
+ */
+export function tileToQuadkey(x: number, y: number, z: number): string {
+  let quadkey = '';
+
+  for (let i = z; i > 0; i--) {
+    const mask = 1 << (i - 1);
+    let digit = 0;
+    if ((x & mask) !== 0) digit += 1;
+    if ((y & mask) !== 0) digit += 2;
+    quadkey += digit.toString();
+  }
+
+  return quadkey;
+}
+
+/**
+ * Lowercase variable lookup table
+ */
+function normalizeVariables(variables?: Record<string, string>): Record<string, string> {
+  // No prototype, so {constructor} or {toString} are not taken for defined variables
+  const normalized: Record<string, string> = Object.create(null);
+  for (const [name, value] of Object.entries(variables ?? {})) {
+    normalized[name.toLowerCase()] = value;
+  }
+  return normalized;
+}
+
+/**
+ * Check template placeholders against the template options
+ *
+ * @param url - URL template
+ * @param options - Template options
+ * @param requireCoordinates - Whether {x}/{y}/{z} (or {q}) must be present
+ */
+export function checkURLTemplate(
+  url: string,
+  options: TemplateOptions = {},
+  requireCoordinates: boolean = true
+): TemplateCheck {
+  const { placeholders } = parseURLTemplate(url);
+  const variables = normalizeVariables(options.variables);
+  const missing: string[] = [];
+  const unknown: string[] = [];
+  const unfilled: string[] = [];
+
+  // A quadkey encodes x, y and z on its own
+  if (requireCoordinates && !placeholders.includes('q')) {
+    if (!placeholders.includes('x')) missing.push('x');
+    if (!placeholders.includes('y') && !placeholders.includes('-y')) missing.push('y');
+    if (!placeholders.includes('z')) missing.push('z');
+  }
+
+  for (const name of placeholders) {
+    if (name in variables) continue;
+
+    if (!BUILTIN_PLACEHOLDERS.includes(name)) {
+      unknown.push(name);
+    } else if (name === 'ext' && !options.extension) {
+      unfilled.push(name);
+    }
+  }
+
+  return { placeholders, missing, unknown, unfilled };
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+/**
+ * Expand a URL template for one tile
+ *
+ * User-defined variables take precedence over built-in placeholders; unknown
+ * or unfilled placeholders are left untouched (see {@link checkURLTemplate}).
+ *
+ * @param template - URL template
+ * @param tile - Tile coordinates (y as expected by the service)
+ * @param options - Template options
+ * @param subdomain - Value for {s}
+ */
+export function expandURLTemplate(
+  template: string,
+  tile: { x: number; y: number; z: number },
+  options: TemplateOptions = {},
+  subdomain?: string
+): string {
+  const variables = normalizeVariables(options.variables);
+
+  return template.replace(PLACEHOLDER_PATTERN, (match, rawName: string) => {
+    const name = rawName.toLowerCase();
+
+    if (name in variables) return variables[name] as string;
+
+    switch (name) {
+      case 'x': return tile.x.toString();
+      case 'y': return tile.y.toString();
+      case '-y': return (Math.pow(2, tile.z) - 1 - tile.y).toString();
+      case 'z': return tile.z.toString();
+      case 'q': return tileToQuadkey(tile.x, tile.y, tile.z);
+      case 'r': return options.retina ? '@2x' : '';
+      case 's': return subdomain ?? match;
+      case 'ext': return options.extension ?? match;
+      default: return match;
+    }
+  });
+}
+
+// ============================================================================
+// REDACTION
+// ============================================================================
+
+/**
+ * Names of query parameters and variables that carry credentials
+ */
+const SECRET_NAME_PATTERN = /key|token|secret|signature|sig|password|auth/i;
+
+/**
+ * Values of user-defined variables that look like credentials (e.g. {apikey})
+ */
+export function getSecretVariables(variables?: Record<string, string>): string[] {
+  return Object.entries(variables ?? {})
+    .filter(([name, value]) => SECRET_NAME_PATTERN.test(name) && value.length > 0)
+    .map(([, value]) => value);
+}
+
+/**
+ * User-defined variables without the ones that look like credentials
+ */
+export function omitSecretVariables(variables?: Record<string, string>): Record<string, string> | undefined {
+  if (!variables) return undefined;
+  return Object.fromEntries(Object.entries(variables).filter(([name]) => !SECRET_NAME_PATTERN.test(name)));
+}
+
+/**
+ * Mask credentials in a tile URL before it is logged
+ *
+ * Replaces the given secret values anywhere in the URL, user info and the
+ * values of query parameters whose names look like credentials.
+ *
+ * @param url - Expanded tile URL
+ * @param secrets - Additional values to mask, e.g. from {@link getSecretVariables}
+ */
+export function redactURL(url: string, secrets: string[] = []): string {
+  let redacted = url;
+  for (const secret of secrets) {
+    redacted = redacted.split(secret).join('***');
+  }
+
+  try {
+    const parsed = new URL(redacted);
+    if (parsed.username || parsed.password) {
+      parsed.username = '***';
+      parsed.password = '';
+    }
+    for (const name of new Set(parsed.searchParams.keys())) {
+      if (SECRET_NAME_PATTERN.test(name)) {
+        parsed.searchParams.set(name, '***');
+      }
+    }
+    return parsed.toString();
+  } catch {
+    return redacted;
+  }
+}
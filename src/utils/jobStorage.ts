@@ -0,0 +1,124 @@
+/**
+ * Download Job Storage
+ *
+ * IndexedDB persistence for resumable download jobs
+ */
+
+import { openDB, type IDBPDatabase } from 'idb';
+import type { DownloadCursor, TileDownloadConfig, TileFailure } from '../services/tileDownloader';
+import { omitSecretVariables } from '../services/urlTemplate';
+
+const DB_NAME = 'download-jobs';
+const STORE_NAME = 'jobs';
+const DB_VERSION = 1;
+
+/**
+ * Job state; running jobs found on startup were interrupted by a reload or crash
+ */
+export type DownloadJobState = 'running' | 'paused' | 'failed' | 'completed' | 'cancelled';
+
+/**
+ * Cumulative job progress across runs
+ */
+export interface DownloadJobProgress {
+  totalTiles: number;
+  downloaded: number;
+  failed: number;
+  unchanged: number;
+  downloadedBytes: number;
+}
+
+export interface DownloadJobRecord {
+  id: string;
+  /** Download config without credentials, existing tiles or resume point */
+  config: TileDownloadConfig;
+  state: DownloadJobState;
+  cursor: DownloadCursor;
+  progress: DownloadJobProgress;
+  /** Tiles that failed in completed runs, kept so they can be retried later */
+  failures?: TileFailure[];
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Open IndexedDB
+ */
+async function openJobDB(): Promise<IDBPDatabase> {
+  return openDB(DB_NAME, DB_VERSION, {
+    upgrade(db) {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    }
+  });
+}
+
+/**
+ * Prepare a download config for storage
+ *
+ * Headers, token refresh and credential-like URL variables are removed; pass
+ * them again when resuming. Existing tiles are replaced by the job's cursor,
+ * and the shared concurrency budget only lives in memory.
+ */
+export function toStoredConfig(config: TileDownloadConfig): TileDownloadConfig {
+  const {
+    headers: _headers,
+    refreshAuth: _refreshAuth,
+    existingTiles: _existingTiles,
+    resumeFrom: _resumeFrom,
+    budget: _budget,
+    priority: _priority,
+    ...stored
+  } = config;
+  return JSON.parse(JSON.stringify({ ...stored, urlVariables: omitSecretVariables(config.urlVariables) }));
+}
+
+/**
+ * Save download job
+ */
+export async function saveDownloadJob(job: DownloadJobRecord): Promise<void> {
+  const db = await openJobDB();
+  await db.put(STORE_NAME, { ...job, updatedAt: Date.now() });
+}
+
+/**
+ * Retrieve download job
+ */
+export async function getDownloadJob(id: string): Promise<DownloadJobRecord | null> {
+  const db = await openJobDB();
+  return (await db.get(STORE_NAME, id)) ?? null;
+}
+
+/**
+ * List jobs that can be resumed (running, paused or failed), oldest first
+ */
+export async function listUnfinishedJobs(): Promise<DownloadJobRecord[]> {
+  const db = await openJobDB();
+  const records: DownloadJobRecord[] = await db.getAll(STORE_NAME);
+
+  return records
+    .filter(record => record.state !== 'completed' && record.state !== 'cancelled')
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * List completed jobs with failed tiles to retry, newest first
+ */
+export async function listJobsWithFailures(): Promise<DownloadJobRecord[]> {
+  const db = await openJobDB();
+  const records: DownloadJobRecord[] = await db.getAll(STORE_NAME);
+
+  return records
+    .filter(record => record.state === 'completed' && (record.failures?.length ?? 0) > 0)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Delete download job
+ */
+export async function deleteDownloadJob(id: string): Promise<void> {
+  const db = await openJobDB();
+  await db.delete(STORE_NAME, id);
+}
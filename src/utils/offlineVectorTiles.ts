@@ -0,0 +1,108 @@
+/**
+ * Offline Vector Tiles
+ *
+ * Serves vector tiles stored in IndexedDB to an OpenLayers VectorTile layer,
+ * styled with the service's stored Mapbox/MapLibre style JSON and attributed
+ * with its stored attribution and licence.
+ *
+ * @module offlineVectorTiles
+ */
+
+import VectorTileLayer from 'ol/layer/VectorTile';
+import VectorTileSource from 'ol/source/VectorTile';
+import MVT from 'ol/format/MVT';
+import TileState from 'ol/TileState';
+import type VectorTile from 'ol/VectorTile';
+import type RenderFeature from 'ol/render/Feature';
+import { applyStyle } from 'ol-mapbox-style';
+import { getTileFromIndexedDB, getStyleJSON, getServiceMetadata, formatAttributionHTML } from './tileStorage';
+
+/**
+ * Offline layer options
+ */
+export interface OfflineVectorTileOptions {
+  /** Tile scheme the tiles were stored with (default: 'xyz') */
+  tileScheme?: 'xyz' | 'tms';
+
+  /** Lowest stored zoom level; the layer overzooms beyond maxZoom */
+  minZoom?: number;
+
+  /** Highest stored zoom level */
+  maxZoom?: number;
+
+  /** Source ID in the style JSON whose layers are rendered (default: source of the first vector layer) */
+  styleSource?: string;
+
+  /** Declutter labels and icons (default: true) */
+  declutter?: boolean;
+}
+
+/**
+ * Create a VectorTile layer for a vector tile service downloaded for offline use
+ *
+ * Missing tiles render empty. Without a stored style (see `saveStyleJSON`), or
+ * if the style cannot be applied, the OpenLayers default style is used. The
+ * stored attribution (see `saveServiceMetadata`) is shown in the map's
+ * attribution control.
+ *
+ * @param serviceName - Service the tiles were stored under
+ * @param options - Layer options
+ *
+ * @example
+ * ```typescript
+ * await saveStyleJSON('openmaptiles', await (await fetch(styleUrl)).json());
+ * map.addLayer(await createOfflineVectorTileLayer('openmaptiles', { maxZoom: 14 }));
+ * ```
+ */
+export async function createOfflineVectorTileLayer(
+  serviceName: string,
+  options: OfflineVectorTileOptions = {}
+): Promise<VectorTileLayer> {
+  const format = new MVT();
+  const tileScheme = options.tileScheme ?? 'xyz';
+  const metadata = await getServiceMetadata(serviceName);
+
+  const source = new VectorTileSource({
+    format,
+    attributions: metadata ? formatAttributionHTML(metadata) : undefined,
+    minZoom: options.minZoom,
+    maxZoom: options.maxZoom,
+    // Tiles are read from IndexedDB by the load function, the URL only keys the tile cache
+    url: `indexeddb://${serviceName}/{z}/{x}/{y}`,
+    tileLoadFunction: (tile) => {
+      const vectorTile = tile as VectorTile<RenderFeature>;
+      const [z, x, y] = tile.getTileCoord() as [number, number, number];
+
+      vectorTile.setLoader(async (extent, _resolution, projection) => {
+        try {
+          const row = tileScheme === 'tms' ? Math.pow(2, z) - 1 - y : y;
+          const blob = await getTileFromIndexedDB(serviceName, z, x, row);
+          const features = blob
+            ? format.readFeatures(await blob.arrayBuffer(), { extent, featureProjection: projection })
+            : [];
+          vectorTile.setFeatures(features);
+        } catch (error) {
+          console.warn(`[offlineVectorTiles] Failed to load ${serviceName}:${z}:${x}:${y}:`, error);
+          vectorTile.setState(TileState.ERROR);
+        }
+      });
+    }
+  });
+
+  const layer = new VectorTileLayer({
+    source,
+    declutter: options.declutter ?? true
+  });
+
+  const style = await getStyleJSON(serviceName);
+  if (style) {
+    try {
+      // Keep the IndexedDB source instead of the sources listed in the style
+      await applyStyle(layer, style, { source: options.styleSource, updateSource: false });
+    } catch (error) {
+      console.warn(`[offlineVectorTiles] Style of ${serviceName} could not be applied, using the default style:`, error);
+    }
+  }
+
+  return layer;
+}
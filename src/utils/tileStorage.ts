@@ -4,12 +4,21 @@
  * IndexedDB storage for offline map tiles
  */
 
-import { openDB, type IDBPDatabase } from 'idb';
-import type { TileBlob, TileCache } from '../services/tileDownloader';
+import { openDB, type IDBPDatabase, type IDBPObjectStore } from 'idb';
+import { createXYZ } from 'ol/tilegrid';
+import { get as getProjection, transformExtent } from 'ol/proj';
+import type TileRange from 'ol/TileRange';
+import type { TileBlob, TileCache, TileServiceAttribution, UnchangedTile } from '../services/tileDownloader';
+import { isTileExpired, type ExpiryPolicy } from '../services/tileExpiry';
+import { hashTileData } from '../services/tileValidation';
 
 const DB_NAME = 'tile-storage';
 const STORE_NAME = 'tiles';
-const DB_VERSION = 1;
+const POLICY_STORE_NAME = 'expiry-policies';
+const BLOB_STORE_NAME = 'blobs';
+const STYLE_STORE_NAME = 'styles';
+const SERVICE_STORE_NAME = 'services';
+const DB_VERSION = 5;
 
 export interface TileRecord {
   id: string; // "serviceName:z:x:y"
@@ -17,11 +26,124 @@ export interface TileRecord {
   z: number;
   x: number;
   y: number;
+  /** SHA-256 of the tile bytes, key into the blob store */
+  hash?: string;
+  /** Inline tile data of records stored before content addressing */
+  blob?: Blob;
+  size: number;
+  timestamp: number;
+  /** MIME type, e.g. 'image/png' or 'application/x-protobuf' for vector tiles */
+  contentType?: string;
+
+  /** HTTP cache validators for conditional refresh runs */
+  etag?: string;
+  lastModified?: string;
+  cacheControl?: string;
+}
+
+/**
+ * Unique tile content, shared by all coordinates with the same bytes
+ */
+export interface BlobRecord {
+  hash: string;
   blob: Blob;
   size: number;
+  /** Number of tile records referencing this blob */
+  refCount: number;
+}
+
+/**
+ * Storage statistics
+ */
+export interface StorageStats {
+  totalTiles: number;
+  /** Logical size: sum of all tile sizes (same as logicalSize) */
+  totalSize: number;
+  /** Sum of all tile sizes, as if every tile were stored on its own */
+  logicalSize: number;
+  /** Bytes actually stored after deduplication */
+  physicalSize: number;
+  /** logicalSize / physicalSize (1 without duplicates) */
+  dedupRatio: number;
+  uniqueBlobs: number;
+  byService: Record<string, { tiles: number; size: number }>;
+}
+
+/**
+ * Map style stored for offline rendering of a vector tile service
+ */
+export interface StyleRecord {
+  serviceName: string;
+  /** Mapbox/MapLibre style JSON */
+  style: Record<string, unknown>;
   timestamp: number;
 }
 
+/**
+ * Attribution and licence of a stored tile service
+ */
+export interface ServiceMetadataRecord extends TileServiceAttribution {
+  serviceName: string;
+  /** Time tiles of the service were last downloaded */
+  downloadedAt: number;
+}
+
+export interface ExpiryPolicyRecord extends ExpiryPolicy {
+  serviceName: string;
+}
+
+/**
+ * Stored tile that outlived its expiry policy
+ */
+export interface StaleTile {
+  id: string;
+  serviceName: string;
+  z: number;
+  x: number;
+  y: number;
+  timestamp: number;
+  /** Age in ms at query time */
+  age: number;
+}
+
+/**
+ * Stale tile query options
+ */
+export interface StaleTileQuery {
+  /** Area [minLon, minLat, maxLon, maxLat] in EPSG:4326 (default: all stored tiles) */
+  bbox?: [number, number, number, number];
+
+  /** CRS of the service's XYZ tile grid, used for the area filter (default: 'EPSG:3857') */
+  crs?: string;
+
+  /** Tile scheme the tiles were stored with, used for the area filter (default: 'xyz') */
+  tileScheme?: 'xyz' | 'tms';
+
+  /** Minimum zoom level (inclusive) */
+  minZoom?: number;
+
+  /** Maximum zoom level (inclusive) */
+  maxZoom?: number;
+
+  /** Policy to apply (default: the stored policy of the service) */
+  policy?: ExpiryPolicy;
+
+  /** Reference time in ms (default: now) */
+  now?: number;
+}
+
+/**
+ * Stale tiles of a service, with per-zoom age summary
+ */
+export interface StaleTileReport {
+  serviceName: string;
+  /** Applied policy; without a policy no tile is stale, but ages are still reported */
+  policy: ExpiryPolicy | null;
+  checkedTiles: number;
+  staleTiles: StaleTile[];
+  byZoom: Record<number, { tiles: number; stale: number; oldest: number }>;
+}
+
 /**
  * Open IndexedDB
  */
@@ -34,28 +156,110 @@ async function openTileDB(): Promise<IDBPDatabase> {
         store.createIndex('z', 'z');
         store.createIndex('timestamp', 'timestamp');
       }
+      if (!db.objectStoreNames.contains(POLICY_STORE_NAME)) {
+        db.createObjectStore(POLICY_STORE_NAME, { keyPath: 'serviceName' });
+      }
+      // Records from earlier versions keep their inline blob
+      if (!db.objectStoreNames.contains(BLOB_STORE_NAME)) {
+        db.createObjectStore(BLOB_STORE_NAME, { keyPath: 'hash' });
+      }
+      if (!db.objectStoreNames.contains(STYLE_STORE_NAME)) {
+        db.createObjectStore(STYLE_STORE_NAME, { keyPath: 'serviceName' });
+      }
+      if (!db.objectStoreNames.contains(SERVICE_STORE_NAME)) {
+        db.createObjectStore(SERVICE_STORE_NAME, { keyPath: 'serviceName' });
+      }
     }
   });
 }
 
+/**
+ * Drop one reference to a blob, deleting it with the last reference
+ */
+async function releaseBlob(
+  blobs: IDBPObjectStore<unknown, string[], typeof BLOB_STORE_NAME, 'readwrite'>,
+  hash: string
+): Promise<void> {
+  const blobRecord: BlobRecord | undefined = await blobs.get(hash);
+  if (!blobRecord) return;
+
+  if (blobRecord.refCount <= 1) {
+    await blobs.delete(hash);
+  } else {
+    await blobs.put({ ...blobRecord, refCount: blobRecord.refCount - 1 });
+  }
+}
+
 /**
  * Store tile in IndexedDB
+ *
+ * Tile bytes are stored once per content hash; blank ocean or empty overlay
+ * tiles at thousands of coordinates share one blob.
  */
 export async function storeTileInIndexedDB(tile: TileBlob): Promise<void> {
+  // Hash before the transaction, which would commit while awaiting other work
+  const hash = await hashTileData(tile.blob);
+
   const db = await openTileDB();
+  const tx = db.transaction([STORE_NAME, BLOB_STORE_NAME], 'readwrite');
+  const tiles = tx.objectStore(STORE_NAME);
+  const blobs = tx.objectStore(BLOB_STORE_NAME);
+
+  const id = `${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}`;
+  const previous: TileRecord | undefined = await tiles.get(id);
+
+  if (previous?.hash !== hash) {
+    if (previous?.hash) {
+      await releaseBlob(blobs, previous.hash);
+    }
+
+    const blobRecord: BlobRecord | undefined = await blobs.get(hash);
+    await blobs.put(blobRecord
+      ? { ...blobRecord, refCount: blobRecord.refCount + 1 }
+      : { hash, blob: tile.blob, size: tile.size, refCount: 1 });
+  }
 
   const record: TileRecord = {
-    id: `${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}`,
+    id,
     serviceName: tile.serviceName,
     z: tile.z,
     x: tile.x,
     y: tile.y,
-    blob: tile.blob,
+    hash,
     size: tile.size,
-    timestamp: Date.now()
+    timestamp: Date.now(),
+    contentType: tile.blob.type || undefined,
+    etag: tile.validators?.etag,
+    lastModified: tile.validators?.lastModified,
+    cacheControl: tile.validators?.cacheControl
   };
 
-  await db.put(STORE_NAME, record);
+  await tiles.put(record);
+  await tx.done;
+}
+
+/**
+ * Renew a stored tile the server confirmed as current (304 Not Modified)
+ *
+ * Sets its timestamp to now and takes over the response's validators, so it
+ * no longer counts as expired. Tiles that are not stored are ignored.
+ */
+export async function touchTileInIndexedDB(tile: UnchangedTile): Promise<void> {
+  const db = await openTileDB();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const tiles = tx.objectStore(STORE_NAME);
+
+  const record: TileRecord | undefined = await tiles.get(`${tile.serviceName}:${tile.z}:${tile.x}:${tile.y}`);
+  if (record) {
+    await tiles.put({
+      ...record,
+      timestamp: Date.now(),
+      etag: tile.validators.etag,
+      lastModified: tile.validators.lastModified,
+      cacheControl: tile.validators.cacheControl
+    });
+  }
+  await tx.done;
 }
 
 /**
@@ -70,12 +274,19 @@ export async function getTileFromIndexedDB(
   const db = await openTileDB();
   const id = `${serviceName}:${z}:${x}:${y}`;
 
-  const record = await db.get(STORE_NAME, id);
-  return record ? record.blob : null;
+  const record: TileRecord | undefined = await db.get(STORE_NAME, id);
+  if (!record) return null;
+  if (record.blob) return record.blob;
+
+  const blobRecord: BlobRecord | undefined = record.hash ? await db.get(BLOB_STORE_NAME, record.hash) : undefined;
+  return blobRecord?.blob ?? null;
 }
 
 /**
  * Load tile cache for deduplication
+ *
+ * Entries carry the stored timestamp and validators, so the cache can also be
+ * passed to a refresh run (`refresh: true`).
  */
 export async function loadCacheFromIndexedDB(serviceName?: string): Promise<TileCache> {
   const db = await openTileDB();
@@ -98,25 +309,35 @@ export async function loadCacheFromIndexedDB(serviceName?: string): Promise<Tile
     if (!cache[record.serviceName][record.z]) cache[record.serviceName][record.z] = {};
     if (!cache[record.serviceName][record.z][record.x]) cache[record.serviceName][record.z][record.x] = {};
 
-    cache[record.serviceName][record.z][record.x][record.y] = true;
+    cache[record.serviceName][record.z][record.x][record.y] = {
+      timestamp: record.timestamp,
+      etag: record.etag,
+      lastModified: record.lastModified,
+      cacheControl: record.cacheControl
+    };
   }
 
   return cache;
 }
 
 /**
- * Delete tiles for a service
+ * Delete tiles for a service with its attribution (blobs are deleted with their last reference)
  */
 export async function deleteTilesForService(serviceName: string): Promise<void> {
   const db = await openTileDB();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const tx = db.transaction([STORE_NAME, BLOB_STORE_NAME, SERVICE_STORE_NAME], 'readwrite');
   const store = tx.objectStore(STORE_NAME);
+  const blobs = tx.objectStore(BLOB_STORE_NAME);
+  await tx.objectStore(SERVICE_STORE_NAME).delete(serviceName);
   const index = store.index('serviceName');
 
-  const keys = await index.getAllKeys(serviceName);
+  const records: TileRecord[] = await index.getAll(serviceName);
 
-  for (const key of keys) {
-    await store.delete(key);
+  for (const record of records) {
+    await store.delete(record.id);
+    if (record.hash) {
+      await releaseBlob(blobs, record.hash);
+    }
   }
 
   await tx.done;
@@ -125,22 +346,29 @@ export async function deleteTilesForService(serviceName: string): Promise<void>
 /**
  * Get storage statistics
  */
-export async function getStorageStats(): Promise<{
-  totalTiles: number;
-  totalSize: number;
-  byService: Record<string, { tiles: number; size: number }>;
-}> {
+export async function getStorageStats(): Promise<StorageStats> {
   const db = await openTileDB();
-  const records = await db.getAll(STORE_NAME);
+  const records: TileRecord[] = await db.getAll(STORE_NAME);
+  const blobRecords: BlobRecord[] = await db.getAll(BLOB_STORE_NAME);
 
-  const stats = {
+  const stats: StorageStats = {
     totalTiles: records.length,
     totalSize: 0,
-    byService: {} as Record<string, { tiles: number; size: number }>
+    logicalSize: 0,
+    physicalSize: blobRecords.reduce((sum, blobRecord) => sum + blobRecord.size, 0),
+    dedupRatio: 1,
+    uniqueBlobs: blobRecords.length,
+    byService: {}
   };
 
   for (const record of records) {
-    stats.totalSize += record.size;
+    stats.logicalSize += record.size;
+
+    // Inline blobs of earlier versions are not shared
+    if (record.blob) {
+      stats.physicalSize += record.size;
+      stats.uniqueBlobs++;
+    }
 
     if (!stats.byService[record.serviceName]) {
       stats.byService[record.serviceName] = { tiles: 0, size: 0 };
@@ -150,5 +378,198 @@ export async function getStorageStats(): Promise<{
     stats.byService[record.serviceName].size += record.size;
   }
 
+  stats.totalSize = stats.logicalSize;
+  stats.dedupRatio = stats.physicalSize > 0 ? stats.logicalSize / stats.physicalSize : 1;
+
   return stats;
 }
+
+/**
+ * Store the style JSON of a vector tile service for offline rendering
+ */
+export async function saveStyleJSON(serviceName: string, style: Record<string, unknown>): Promise<void> {
+  const db = await openTileDB();
+  const record: StyleRecord = { serviceName, style, timestamp: Date.now() };
+  await db.put(STYLE_STORE_NAME, record);
+}
+
+/**
+ * Get the stored style JSON of a vector tile service
+ */
+export async function getStyleJSON(serviceName: string): Promise<Record<string, unknown> | null> {
+  const db = await openTileDB();
+  const record: StyleRecord | undefined = await db.get(STYLE_STORE_NAME, serviceName);
+  return record?.style ?? null;
+}
+
+/**
+ * Store the attribution and licence of a service with the download date
+ *
+ * @example
+ * ```typescript
+ * await saveServiceMetadata('osm', {
+ *   html: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+ *   license: 'ODbL 1.0',
+ *   licenseUrl: 'https://opendatacommons.org/licenses/odbl/'
+ * });
+ * ```
+ */
+export async function saveServiceMetadata(
+  serviceName: string,
+  attribution: TileServiceAttribution,
+  downloadedAt: number = Date.now()
+): Promise<void> {
+  const db = await openTileDB();
+  const record: ServiceMetadataRecord = { ...attribution, serviceName, downloadedAt };
+  await db.put(SERVICE_STORE_NAME, record);
+}
+
+/**
+ * Get the stored attribution and licence of a service
+ */
+export async function getServiceMetadata(serviceName: string): Promise<ServiceMetadataRecord | null> {
+  const db = await openTileDB();
+  const record: ServiceMetadataRecord | undefined = await db.get(SERVICE_STORE_NAME, serviceName);
+  return record ?? null;
+}
+
+/**
+ * List the stored attribution and licence of all services
+ */
+export async function listServiceMetadata(): Promise<ServiceMetadataRecord[]> {
+  const db = await openTileDB();
+  return db.getAll(SERVICE_STORE_NAME);
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Attribution HTML for a map: attribution, licence link and download date
+ */
+export function formatAttributionHTML(metadata: ServiceMetadataRecord): string {
+  const parts = [metadata.html];
+
+  if (metadata.license) {
+    const license = escapeHTML(metadata.license);
+    parts.push(metadata.licenseUrl
+      ? `<a href="${escapeHTML(metadata.licenseUrl)}" target="_blank" rel="noopener">${license}</a>`
+      : license);
+  }
+  parts.push(`downloaded ${new Date(metadata.downloadedAt).toISOString().slice(0, 10)}`);
+
+  return parts.join(' · ');
+}
+
+/**
+ * Set the expiry policy of a service
+ */
+export async function setExpiryPolicy(serviceName: string, policy: ExpiryPolicy): Promise<void> {
+  const db = await openTileDB();
+  const record: ExpiryPolicyRecord = { ...policy, serviceName };
+  await db.put(POLICY_STORE_NAME, record);
+}
+
+/**
+ * Get the expiry policy of a service
+ */
+export async function getExpiryPolicy(serviceName: string): Promise<ExpiryPolicy | null> {
+  const db = await openTileDB();
+  const record: ExpiryPolicyRecord | undefined = await db.get(POLICY_STORE_NAME, serviceName);
+  if (!record) return null;
+
+  const { serviceName: _, ...policy } = record;
+  return policy;
+}
+
+/**
+ * Remove the expiry policy of a service (its tiles no longer expire)
+ */
+export async function deleteExpiryPolicy(serviceName: string): Promise<void> {
+  const db = await openTileDB();
+  await db.delete(POLICY_STORE_NAME, serviceName);
+}
+
+/**
+ * Find stored tiles of a service that expired under its policy
+ *
+ * The area filter maps the bbox onto the XYZ tile grid of the CRS, matching
+ * how XYZ, TMS and WMS tiles are addressed.
+ */
+export async function getStaleTiles(
+  serviceName: string,
+  query: StaleTileQuery = {}
+): Promise<StaleTileReport> {
+  const db = await openTileDB();
+  const policy = query.policy ?? await getExpiryPolicy(serviceName);
+  const now = query.now ?? Date.now();
+  const records: TileRecord[] = await db.getAllFromIndex(STORE_NAME, 'serviceName', serviceName);
+
+  const inArea = query.bbox ? createAreaFilter(query.bbox, query.crs ?? 'EPSG:3857', query.tileScheme ?? 'xyz') : null;
+
+  const report: StaleTileReport = {
+    serviceName,
+    policy,
+    checkedTiles: 0,
+    staleTiles: [],
+    byZoom: {}
+  };
+
+  for (const record of records) {
+    if (query.minZoom !== undefined && record.z < query.minZoom) continue;
+    if (query.maxZoom !== undefined && record.z > query.maxZoom) continue;
+    if (inArea && !inArea(record.z, record.x, record.y)) continue;
+
+    report.checkedTiles++;
+    const zoom = report.byZoom[record.z] ?? { tiles: 0, stale: 0, oldest: record.timestamp };
+    zoom.tiles++;
+    zoom.oldest = Math.min(zoom.oldest, record.timestamp);
+    report.byZoom[record.z] = zoom;
+
+    if (policy && isTileExpired(record, policy, now)) {
+      zoom.stale++;
+      report.staleTiles.push({
+        id: record.id,
+        serviceName: record.serviceName,
+        z: record.z,
+        x: record.x,
+        y: record.y,
+        timestamp: record.timestamp,
+        age: now - record.timestamp
+      });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Create a tile filter for a bbox in EPSG:4326
+ */
+function createAreaFilter(
+  bbox: [number, number, number, number],
+  crs: string,
+  tileScheme: 'xyz' | 'tms'
+): (z: number, x: number, y: number) => boolean {
+  const projection = getProjection(crs);
+  if (!projection) {
+    throw new Error(`Unknown projection: ${crs}`);
+  }
+
+  const tileGrid = createXYZ({ extent: projection.getExtent() });
+  const extent = transformExtent(bbox, 'EPSG:4326', crs);
+
+  const rangesByZoom = new Map<number, TileRange>();
+
+  return (z, x, y) => {
+    let range = rangesByZoom.get(z);
+    if (!range) {
+      range = tileGrid.getTileRangeForExtentAndZ(extent, z);
+      rangesByZoom.set(z, range);
+    }
+
+    const row = tileScheme === 'tms' ? Math.pow(2, z) - 1 - y : y;
+    return range.containsXY(x, row);
+  };
+}
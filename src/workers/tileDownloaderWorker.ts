@@ -11,9 +11,11 @@ import type {
   TileDownloadConfig,
   TileDownloadResult,
   TileBlob,
+  UnchangedTile,
   DownloadState,
   LiveProgress,
-  DownloadStats
+  DownloadStats,
+  DownloadCursor
 } from '../services/tileDownloader';
 
 // ============================================================================
@@ -28,17 +30,19 @@ export type WorkerCommand =
   | { type: 'PAUSE_DOWNLOAD'; id: string }
   | { type: 'RESUME_DOWNLOAD'; id: string }
   | { type: 'CANCEL_DOWNLOAD'; id: string }
-  | { type: 'GET_PROGRESS'; id: string };
+  | { type: 'GET_PROGRESS'; id: string }
+  | { type: 'TILE_STORED'; id: string; tileId: number; error?: string };
 
 /**
  * Messages from worker to main thread
  */
 export type WorkerResponse =
   | { type: 'DOWNLOAD_STARTED'; id: string; totalTiles: number; estimatedSize: number }
-  | { type: 'PROGRESS_UPDATE'; id: string; progress: LiveProgress }
-  | { type: 'TILE_DOWNLOADED'; id: string; tile: TileBlob }
+  | { type: 'PROGRESS_UPDATE'; id: string; progress: LiveProgress; cursor: DownloadCursor }
+  | { type: 'TILE_DOWNLOADED'; id: string; tileId: number; tile: TileBlob }
+  | { type: 'TILE_UNCHANGED'; id: string; tile: UnchangedTile }
   | { type: 'DOWNLOAD_COMPLETE'; id: string; stats: DownloadStats }
-  | { type: 'DOWNLOAD_ERROR'; id: string; error: string }
+  | { type: 'DOWNLOAD_ERROR'; id: string; error: string; cursor?: DownloadCursor }
   | { type: 'DOWNLOAD_CANCELLED'; id: string };
 
 // ============================================================================
@@ -54,6 +58,9 @@ interface ActiveDownload {
   result: TileDownloadResult | null;
   abortController: AbortController;
   lastProgress: LiveProgress | null;
+  /** Tiles sent to the main thread, settled once it reports them stored */
+  pendingStores: Map<number, { resolve: () => void; reject: (error: Error) => void }>;
+  nextTileId: number;
 }
 
 const activeDownloads = new Map<string, ActiveDownload>();
@@ -78,7 +85,9 @@ async function startDownload(id: string, config: TileDownloadConfig): Promise<vo
       config,
       result,
       abortController: new AbortController(),
-      lastProgress: result.progress
+      lastProgress: result.progress,
+      pendingStores: new Map(),
+      nextTileId: 0
     };
     activeDownloads.set(id, download);
 
@@ -90,50 +99,60 @@ async function startDownload(id: string, config: TileDownloadConfig): Promise<vo
       estimatedSize: result.estimatedSize
     } as WorkerResponse);
 
-    // Start consuming tiles
-    const progressInterval = setInterval(() => {
-      const currentProgress = result.progress;
-      download.lastProgress = currentProgress;
+    // Forward events to the main thread
+    result.on('progress', progress => {
+      download.lastProgress = progress;
 
       postMessage({
         type: 'PROGRESS_UPDATE',
         id,
-        progress: currentProgress
+        progress,
+        cursor: result.cursor
       } as WorkerResponse);
-    }, 1000); // Update progress every second
+    });
 
-    // Process tiles
-    try {
-      for await (const tile of result.tiles) {
-        // Send tile to main thread for storage
-        postMessage({
-          type: 'TILE_DOWNLOADED',
-          id,
-          tile
-        } as WorkerResponse);
-      }
-
-      // Get final stats
-      const stats = await result.stats;
-
-      clearInterval(progressInterval);
-      activeDownloads.delete(id);
+    // Send tiles to the main thread for storage and wait until they are stored,
+    // so completion and the resume cursor never run ahead of storage
+    result.on('tile', tile => new Promise<void>((resolve, reject) => {
+      const tileId = download.nextTileId++;
+      download.pendingStores.set(tileId, { resolve, reject });
+
+      postMessage({
+        type: 'TILE_DOWNLOADED',
+        id,
+        tileId,
+        tile
+      } as WorkerResponse);
+    }));
 
+    // Stored tiles confirmed by a refresh, for the main thread to renew
+    result.on('unchanged', tile => {
+      postMessage({
+        type: 'TILE_UNCHANGED',
+        id,
+        tile
+      } as WorkerResponse);
+    });
+
+    result.on('complete', stats => {
       postMessage({
         type: 'DOWNLOAD_COMPLETE',
         id,
         stats
       } as WorkerResponse);
+    });
 
+    try {
+      await result.start();
     } catch (error) {
-      clearInterval(progressInterval);
-      activeDownloads.delete(id);
-
       postMessage({
         type: 'DOWNLOAD_ERROR',
         id,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cursor: result.cursor
       } as WorkerResponse);
+    } finally {
+      activeDownloads.delete(id);
     }
 
   } catch (error) {
@@ -176,6 +195,12 @@ function cancelDownload(id: string): void {
     download.result.cancel();
     activeDownloads.delete(id);
 
+    // Tiles no longer need storing
+    for (const store of download.pendingStores.values()) {
+      store.resolve();
+    }
+    download.pendingStores.clear();
+
     postMessage({
       type: 'DOWNLOAD_CANCELLED',
       id
@@ -183,16 +208,33 @@ function cancelDownload(id: string): void {
   }
 }
 
+/**
+ * Settle a tile the main thread stored (or failed to store)
+ */
+function tileStored(id: string, tileId: number, error?: string): void {
+  const pending = activeDownloads.get(id)?.pendingStores;
+  const store = pending?.get(tileId);
+  if (!store) return;
+
+  pending!.delete(tileId);
+  if (error) {
+    store.reject(new Error(error));
+  } else {
+    store.resolve();
+  }
+}
+
 /**
  * Get current progress
  */
 function getProgress(id: string): void {
   const download = activeDownloads.get(id);
-  if (download?.lastProgress) {
+  if (download?.lastProgress && download.result) {
     postMessage({
       type: 'PROGRESS_UPDATE',
       id,
-      progress: download.lastProgress
+      progress: download.lastProgress,
+      cursor: download.result.cursor
     } as WorkerResponse);
   }
 }
@@ -227,6 +269,10 @@ self.addEventListener('message', (event: MessageEvent<WorkerCommand>) => {
     case 'GET_PROGRESS':
       getProgress(command.id);
       break;
+
+    case 'TILE_STORED':
+      tileStored(command.id, command.tileId, command.error);
+      break;
   }
 });
 